@@ -0,0 +1,57 @@
+/**
+bits.ts
+
+Bit fields of register values for the GNU source level debugger.
+
+The lint rules forbid the bitwise operators, so the bit fields are computed
+with arithmetic. Register values are 32 bit unsigned numbers.
+
+@file
+@copyright   Atomclip, all rights reserved
+@author      Carl van Heezik
+@version     0.0.1
+@since       2026-10-19
+*/
+
+/**
+2 to the power n.
+*/
+export function power(n: number): number {
+	return Math.pow(2, n);
+}
+
+/**
+Value of a 32 bit register as unsigned number.
+*/
+export function unsigned(value: number): number {
+	return value < 0 ? value + 0x100000000 : value;
+}
+
+/**
+Field of width bits at the bit offset.
+*/
+export function field(value: number, offset: number, width: number): number {
+	return Math.floor(unsigned(value) / power(offset)) % power(width);
+}
+
+/**
+Test if bit n is set.
+*/
+export function isSet(value: number, n: number): boolean {
+	return field(value, n, 1) === 1;
+}
+
+/**
+Format a value as hexadecimal number with the given number of bits.
+*/
+export function hex(value: number, size: number): string {
+	const digits = Math.max(Math.ceil(size / 4), 1);
+	return '0x' + ('00000000' + value.toString(16).toUpperCase()).slice(-digits);
+}
+
+/**
+Format an address as 32 bit hexadecimal number, as GDB shows it.
+*/
+export function hexAddress(address: number): string {
+	return '0x' + ('00000000' + unsigned(address).toString(16)).slice(-8);
+}
@@ -47,6 +47,46 @@ export class GnuExtension
 				('gnu-debugger', provider)
 
 			);
+
+		// Continue until the line of the cursor is reached
+		context.subscriptions.push
+			(
+			vscode.commands.registerCommand('gnu-debugger.runToLine', runToLine)
+			);
+	}
+}
+
+/**
+Thread or stack frame selected in the call stack view. VS Code 1.90 and later
+provide it as vscode.debug.activeStackItem.
+*/
+interface StackItem
+{
+	session: vscode.DebugSession;
+	threadId: number;
+}
+
+/**
+Run to the line of the cursor in the active editor. The debug adapter runs the
+thread that is selected in the call stack view, or the thread that stopped last
+when VS Code does not tell the selected thread.
+*/
+function runToLine()
+{
+	const session = vscode.debug.activeDebugSession;
+	const editor = vscode.window.activeTextEditor;
+	const item: StackItem | undefined = (vscode.debug as any).activeStackItem;
+
+	if (session && session.type === 'gnu-debugger' && editor)
+	{
+		const args =
+			{
+				source: { path: editor.document.uri.fsPath },
+				line: editor.selection.active.line + 1,
+				threadId: item && item.session.id === session.id ? item.threadId : undefined
+			};
+		session.customRequest('runToLine', args).then
+			(undefined, (error) => vscode.window.showErrorMessage(error.message));
 	}
 }
 
@@ -65,6 +105,12 @@ class GnuConfigurationProvider implements vscode.DebugConfigurationProvider
 		token?: CancellationToken
 		): ProviderResult<DebugConfiguration>
 	{
+		// Semihosting files are relative to the workspace folder
+		if (!config.cwd && folder)
+		{
+			config.cwd = folder.uri.fsPath;
+		}
+
 		// We like to debug our debug adapter  
 		if (EMBED_DEBUG_ADAPTER)
 		{
@@ -0,0 +1,269 @@
+/**
+fault.ts
+
+Fault analysis for Arm Cortex-M processors.
+
+When the core ends up in a fault handler the System Control Block holds the
+cause of the fault. The core pushed the registers of the code that faulted on
+the stack before it entered the handler, the EXC_RETURN value in the link
+register tells which stack was used and if the frame has floating point state.
+
+@file
+@copyright   Atomclip, all rights reserved
+@author      Carl van Heezik
+@version     0.0.1
+@since       2026-10-19
+
+See Armv7-M Architecture Reference Manual B3.2 for background information about
+the System Control Block and B1.5.6 for the exception frame.
+*/
+import * as rtos from './rtos';
+import * as bits from './bits';
+
+/// Configurable Fault Status Register (MMFSR, BFSR and UFSR)
+const CFSR = 0xE000ED28;
+/// HardFault Status Register
+const HFSR = 0xE000ED2C;
+/// MemManage Fault Address Register
+const MMFAR = 0xE000ED34;
+/// BusFault Address Register
+const BFAR = 0xE000ED38;
+/// Debug Exception and Monitor Control Register
+export const DEMCR = 0xE000EDFC;
+
+/**
+Names of the fault exceptions by exception number.
+*/
+const FAULTS: { [exception: number]: string } =
+{
+	3: 'HardFault',
+	4: 'MemManage',
+	5: 'BusFault',
+	6: 'UsageFault',
+	7: 'SecureFault',
+};
+
+/**
+Fault status bits with their explanation.
+*/
+const CFSR_BITS: [number, string][] =
+[
+	[0, 'instruction access violation'],
+	[1, 'data access violation'],
+	[3, 'memory manage fault on exception return unstacking'],
+	[4, 'memory manage fault on exception entry stacking'],
+	[5, 'memory manage fault on lazy floating point state preservation'],
+	[8, 'instruction bus error'],
+	[9, 'precise bus fault'],
+	[10, 'imprecise bus fault'],
+	[11, 'bus fault on exception return unstacking'],
+	[12, 'bus fault on exception entry stacking'],
+	[13, 'bus fault on lazy floating point state preservation'],
+	[16, 'undefined instruction'],
+	[17, 'invalid state, Thumb bit cleared'],
+	[18, 'invalid exception return'],
+	[19, 'no coprocessor'],
+	[20, 'stack overflow'],
+	[24, 'unaligned access'],
+	[25, 'divide by zero'],
+];
+
+const HFSR_BITS: [number, string][] =
+[
+	[1, 'bus fault on vector table read'],
+	[30, 'forced hard fault, escalated from a configurable fault'],
+	[31, 'debug event'],
+];
+
+/**
+Vector catch bits of DEMCR by name, the names are the vector catch names of
+OpenOCD.
+*/
+const VECTOR_CATCH: { [name: string]: number } =
+{
+	reset: 0,
+	mm_err: 4,
+	nocp_err: 5,
+	chk_err: 6,
+	state_err: 7,
+	bus_err: 8,
+	int_err: 9,
+	hard_err: 10,
+};
+
+export interface ExceptionFilter {
+	/// Id of the exception breakpoint filter
+	filter: string;
+	/// Name shown in the breakpoints view
+	label: string;
+	/// Vector catch names
+	vectors: string[];
+}
+
+/**
+Exception breakpoint filters, the core halts on the exception with vector
+catch.
+*/
+export const exceptionFilters: ExceptionFilter[] =
+[
+	{ filter: 'hardfault', label: 'HardFault', vectors: ['hard_err'] },
+	{ filter: 'memmanage', label: 'MemManage', vectors: ['mm_err'] },
+	{ filter: 'busfault', label: 'BusFault', vectors: ['bus_err'] },
+	{ filter: 'usagefault', label: 'UsageFault', vectors: ['state_err', 'chk_err', 'nocp_err'] },
+	{ filter: 'reset', label: 'Reset', vectors: ['reset'] },
+	{ filter: 'any', label: 'Any unhandled exception', vectors: Object.keys(VECTOR_CATCH) },
+];
+
+/**
+Vector catch names of the enabled exception breakpoint filters.
+*/
+export function filterVectors(filters: string[]): string[] {
+	let vectors: string[] = [];
+
+	for (let f of exceptionFilters) {
+		if (filters.indexOf(f.filter) >= 0) {
+			vectors.push(...f.vectors.filter((v) => vectors.indexOf(v) < 0));
+		}
+	}
+	return vectors;
+}
+
+/**
+New value of DEMCR with only the vector catch bits of the vectors set, the
+other bits are kept.
+*/
+export function vectorCatch(demcr: number, vectors: string[]): number {
+	demcr = bits.unsigned(demcr);
+	for (let name of Object.keys(VECTOR_CATCH)) {
+		const n = VECTOR_CATCH[name];
+		const catches = vectors.indexOf(name) >= 0;
+
+		if (catches !== bits.isSet(demcr, n)) {
+			demcr += (catches ? 1 : -1) * bits.power(n);
+		}
+	}
+	return demcr;
+}
+
+/// MMFAR holds a valid address
+const MMARVALID = 7;
+/// BFAR holds a valid address
+const BFARVALID = 15;
+
+/**
+Exception number of the active exception from the IPSR bits of xPSR.
+*/
+export function exceptionNumber(xpsr: number): number {
+	return bits.field(xpsr, 0, 9);
+}
+
+/**
+Test if the exception number belongs to a fault handler.
+*/
+export function isFault(exception: number): boolean {
+	return FAULTS[exception] !== undefined;
+}
+
+/**
+Test if a value of the link register or program counter is an EXC_RETURN
+value.
+*/
+export function isExcReturn(value: number): boolean {
+	return bits.unsigned(value) >= 0xFFFFFF00;
+}
+
+/**
+Test if the exception frame is on the process stack (PSP) instead of the main
+stack (MSP).
+*/
+export function usesPsp(excReturn: number): boolean {
+	return bits.isSet(excReturn, 2);
+}
+
+export class Fault {
+	/// Exception number of the fault handler
+	public exception: number;
+	public cfsr: number;
+	public hfsr: number;
+	public mmfar: number;
+	public bfar: number;
+	/// Registers of the code that faulted, restored from the exception frame
+	public frame: rtos.Registers;
+
+	/// Name of the fault exception
+	name(): string {
+		return FAULTS[this.exception];
+	}
+
+	/// Explanation of the fault status bits
+	reasons(): string[] {
+		let reasons: string[] = [];
+
+		for (let [n, text] of HFSR_BITS) {
+			if (bits.isSet(this.hfsr, n)) {
+				reasons.push(text);
+			}
+		}
+		for (let [n, text] of CFSR_BITS) {
+			if (bits.isSet(this.cfsr, n)) {
+				reasons.push(text);
+			}
+		}
+		// MMFSR is the lowest byte, BFSR the next byte
+		if (bits.field(this.cfsr, 0, 8)) {
+			reasons.push(bits.isSet(this.cfsr, MMARVALID) ? `MMFAR ${bits.hexAddress(this.mmfar)}` : 'MMFAR invalid');
+		}
+		if (bits.field(this.cfsr, 8, 8)) {
+			reasons.push(bits.isSet(this.cfsr, BFARVALID) ? `BFAR ${bits.hexAddress(this.bfar)}` : 'BFAR invalid');
+		}
+		if (!reasons.length) {
+			reasons.push('no fault status bits set');
+		}
+		return reasons;
+	}
+
+	/// Short explanation, e.g. "imprecise bus fault, BFAR invalid"
+	description(): string {
+		return this.reasons().join(', ');
+	}
+
+	/// Fault registers and the registers of the code that faulted
+	details(): string {
+		const f = this.frame;
+
+		return [
+			`CFSR  = ${bits.hexAddress(this.cfsr)}`,
+			`HFSR  = ${bits.hexAddress(this.hfsr)}`,
+			`MMFAR = ${bits.hexAddress(this.mmfar)}`,
+			`BFAR  = ${bits.hexAddress(this.bfar)}`,
+			`r0 = ${bits.hexAddress(f['r0'])}  r1 = ${bits.hexAddress(f['r1'])}  r2 = ${bits.hexAddress(f['r2'])}  r3 = ${bits.hexAddress(f['r3'])}`,
+			`r12 = ${bits.hexAddress(f['r12'])}  sp = ${bits.hexAddress(f['sp'])}  lr = ${bits.hexAddress(f['lr'])}  pc = ${bits.hexAddress(f['pc'])}`,
+			`xpsr = ${bits.hexAddress(f['xpsr'])}`,
+		].join('\n');
+	}
+}
+
+/**
+Read the fault registers and the exception frame. The sp is the stack pointer
+at the entry of the handler, excReturn the EXC_RETURN value of the handler.
+*/
+export async function readFault
+	(
+	target: rtos.Target,
+	exception: number,
+	excReturn: number,
+	sp: number
+	): Promise<Fault> {
+	let fault = new Fault;
+	const scb = await target.readWords(CFSR, 5);
+	// Without the floating point context bit 4 of EXC_RETURN is set
+	const frame = await rtos.exceptionFrame(target, {}, sp, !bits.isSet(excReturn, 4));
+
+	fault.exception = exception;
+	fault.cfsr = scb[(CFSR - CFSR) / 4];
+	fault.hfsr = scb[(HFSR - CFSR) / 4];
+	fault.mmfar = scb[(MMFAR - CFSR) / 4];
+	fault.bfar = scb[(BFAR - CFSR) / 4];
+	fault.frame = frame;
+	return fault;
+}
@@ -13,7 +13,10 @@ See GNU manual for background information.
 https://sourceware.org/gdb/current/onlinedocs/gdb/GDB_002fMI-Output-Syntax.html#GDB_002fMI-Output-Syntax 
 
 output →
-( out-of-band-record )* [ result-record ] "(gdb)" nl
+( out-of-band-record )* [ result-record ] prompt
+
+prompt →
+"(gdb)" nl
 
 result-record →
 [ token ] "^" result-class ( "," result )* nl
@@ -78,161 +81,320 @@ CR | CR-LF
 token →
 any sequence of digits.
 
-*/
+c-string →
+'"' ( character | escape )* '"'
+
+escape →
+"\\" ( "n" | "t" | "r" | "a" | "b" | "f" | "v" | "e" | '"' | "'" | "\\" ) |
+"\\" octal-digit [ octal-digit [ octal-digit ] ]
 
-const TOKEN = 1;
-const CLASS = 2;
-const ASYNC = 2;
-const STREAM = 3;
+GDB deviates from this grammar in two places, both are accepted:
+- A breakpoint with multiple locations is followed by its locations as tuple
+  values (before GDB 13), e.g. ^done,bkpt={...},{number="1.1",...}. The
+  locations are added to the breakpoint as the list locations.
+- The script of a breakpoint is a tuple of values, e.g. script={"silent"}.
+  This tuple is returned as a list of values.
 
-const C_STRING = /^\"((\\.|[^"])*)\"/;
-const OUT_OF_BAND_RECORD = /^(?:(\d*)([\*\+\=])|([\~\@\&]))/;
-const ASYNC_CLASS = /^([_a-zA-Z0-9\-]*)/;
-const VARIABLE = /^([a-zA-Z_][a-zA-Z0-9_\-]*)/;
+A tuple that repeats a name, e.g. thread-ids={thread-id="1",thread-id="2"}, is
+returned as a list of results so no result is lost.
+
+Octal escapes are bytes of the target character set, consecutive bytes are
+decoded as UTF-8.
+*/
 
-const RESULT_RECORD = /^(\d*)\^(done|running|connected|error|exit)/;
+const RESULT_CLASS = /^(done|running|connected|error|exit)\b/;
+const ASYNC_CLASS = /^[a-zA-Z_][a-zA-Z0-9_\-]*/;
+const VARIABLE = /^[a-zA-Z_][a-zA-Z0-9_\-\.]*/;
+const TOKEN = /^\d+/;
+const PROMPT = /^\(gdb\)\s*$/;
 
-const ASYNC_TYPE =
+const ASYNC_TYPE: { [c: string]: string } =
 {
   '*': 'exec',
   '+': 'status',
   '=': 'notify'
 };
-const STREAM_TYPE =
+const STREAM_TYPE: { [c: string]: string } =
 {
   '~': 'console',
   '@': 'target',
   '&': 'log'
 };
+const ESCAPE: { [c: string]: string } =
+{
+  'n': '\n',
+  't': '\t',
+  'r': '\r',
+  'a': '\x07',
+  'b': '\b',
+  'f': '\f',
+  'v': '\v',
+  'e': '\x1b',
+  '"': '"',
+  '\'': '\'',
+  '\\': '\\'
+};
 
-export class MIresult
+/**
+A value is a decoded c-string, a tuple or a list.
+*/
+export type MIvalue = string | MItuple | MIlist;
+
+/**
+Results of a tuple or a record by variable name.
+*/
+export interface MItuple
+{
+  [name: string]: MIvalue;
+}
+
+/**
+A list of values or a list of results. The results of a list are kept in
+order as variables, the same name may be used more than once.
+*/
+export type MIlist = MIvalues | MIresults;
+
+export interface MIvalues extends Array<MIvalue>
+{
+}
+
+export interface MIresults extends Array<MIvariable>
 {
-  public token: number;
-  public class: string;
 }
 
 export class MIvariable
 {
   public name: string;
-  public value: any;
+  public value: MIvalue;
+}
+
+/**
+The results of a result record and an async record by name, e.g.
+record.results['msg'].
+*/
+export class MIresult
+{
+  public token: number | undefined;
+  /// done, running, connected, error or exit
+  public class: string;
+  public results: MItuple = {};
 }
 
 export class MIasync
 {
-  public token: number;
+  public token: number | undefined;
+  /// exec, status or notify
   public type: string;
   public class: string;
+  public results: MItuple = {};
 }
 
 export class MIstream
 {
-  public token: number;
+  /// console, target or log
   public type: string;
+  /// Decoded text
   public content: string;
 }
 
+/**
+The (gdb) prompt at the end of the output of a command.
+*/
+export class MIprompt
+{
+}
+
+export type MIrecord = MIresult | MIasync | MIstream | MIprompt;
+
+/**
+Malformed GDB/MI output.
+*/
+export class MIparseError extends Error
+{
+  constructor
+    (
+    message: string,
+    /// The line of GDB/MI output
+    public output: string,
+    /// Position of the error in the output
+    public position: number
+    )
+  {
+    super(`${message} at position ${position} of GDB/MI output: ${output}`);
+    Object.setPrototypeOf(this, MIparseError.prototype);
+  }
+}
+
+/**
+Parse one line of GDB/MI output. Throws a MIparseError when the line does not
+follow the GDB/MI output syntax.
+*/
 export function parseMI
   (
   output: string
-  ): any
+  ): MIrecord
 {
-  let record;
-  let match;
+  let position = 0;
 
-  // Parse tuple value
-  const tuple = () => 
-  {
-    let t: any = {};
-    do 
-    {
-      output = output.substring(1);
+  // Text after the current position
+  const rest = () => output.substring(position);
 
-      let r = result();
+  const fail = (message: string): never =>
+  {
+    throw new MIparseError(message, output, position);
+  }
 
-      if (r)
-      {
-        t[r.name] = r.value;
-      }
-    } while (output[0] == ',');
-    if (output[0] == '}')
+  const expect = (c: string) =>
+  {
+    if (output[position] !== c)
     {
-      output = output.substring(1);
+      fail(`Expected '${c}'`);
     }
-    return t;
+    position++;
   }
 
-  const results = () => 
+  // Parse a regular expression at the current position
+  const match = (re: RegExp): string | undefined =>
   {
-    let l: any = [];
-    do 
+    const m = re.exec(rest());
+    if (m)
     {
-      output = output.substring(1);
-      let r = result();
+      position += m[0].length;
+      return m[0];
+    }
+    return undefined;
+  }
 
-      if (r)
+  // Parse a c-string and decode the escapes
+  const cstring = (): string =>
+  {
+    let text = '';
+    let bytes: number[] = [];
+
+    // Consecutive octal escapes are the bytes of one UTF-8 character
+    const flush = () =>
+    {
+      if (bytes.length)
       {
-        l.push(r);
+        text += Buffer.from(bytes).toString('utf8');
+        bytes = [];
       }
-    } while (output[0] == ',');
-    if (output[0] == ']')
+    }
+
+    expect('"');
+    while (true)
     {
-      output = output.substring(1);
+      if (position >= output.length)
+      {
+        fail('Unterminated c-string');
+      }
+      let c = output[position++];
+
+      if (c === '"')
+      {
+        flush();
+        return text;
+      }
+      if (c !== '\\')
+      {
+        flush();
+        text += c;
+        continue;
+      }
+      c = output[position++];
+      if (c >= '0' && c <= '7')
+      {
+        let octal = c;
+
+        while (octal.length < 3 && output[position] >= '0' && output[position] <= '7')
+        {
+          octal += output[position++];
+        }
+        bytes.push(parseInt(octal, 8) % 256);
+        continue;
+      }
+      flush();
+      if (c === undefined || ESCAPE[c] === undefined)
+      {
+        position--;
+        fail('Invalid escape in c-string');
+      }
+      text += ESCAPE[c];
     }
-    return l;
   }
 
-  // Parse a list value
-  const list = () => 
+  // Parse a tuple, a tuple of values or with a repeated name is returned as list
+  const tuple = (): MItuple | MIlist =>
   {
-    let l;
+    let t: MItuple = {};
+    let l: MIresults = [];
 
-    switch (output[1])
+    expect('{');
+    if (output[position] === '}')
     {
-      case '"':
-      case '{':
-      case '[':
-        l = values();
-        break;
-      default:
-        l = results();
+      position++;
+      return t;
     }
-    return l;
+    if ('"{['.indexOf(output[position]) >= 0)
+    {
+      return values('}');
+    }
+    do
+    {
+      l.push(result());
+    } while (output[position] === ',' && ++position);
+    expect('}');
+    for (let r of l)
+    {
+      if (t[r.name] !== undefined)
+      {
+        return l;
+      }
+      t[r.name] = r.value;
+    }
+    return t;
   }
 
-  // Parse comma separated values
-  const values = () =>
+  // Parse comma separated values until the closing character
+  const values = (close: string): MIvalues =>
   {
-    let l: any = [];
-    do 
-    {
-      output = output.substring(1);
-      let v = value();
+    let l: MIvalues = [];
 
-      l.push(v);
-    } while (output[0] == ',');
-    if (output[0] == ']')
+    do
     {
-      output = output.substring(1);
-    }
+      l.push(value());
+    } while (output[position] === ',' && ++position);
+    expect(close);
     return l;
   }
 
-  // Parse a const value
-  const cstring = () =>
+  // Parse a list of values or a list of results
+  const list = (): MIlist =>
   {
-    match = C_STRING.exec(output);
-    if (match)
+    let l: MIresults = [];
+
+    expect('[');
+    if (output[position] === ']')
+    {
+      position++;
+      return l;
+    }
+    if ('"{['.indexOf(output[position]) >= 0)
     {
-      output = output.substring(match[0].length);
-      return match[1];
+      return values(']');
     }
-    return "";
+    do
+    {
+      l.push(result());
+    } while (output[position] === ',' && ++position);
+    expect(']');
+    return l;
   }
 
   // Parse a value
-  const value = () =>
+  const value = (): MIvalue =>
   {
-    switch (output[0])
+    switch (output[position])
     {
       case '"':
         return cstring();
@@ -241,107 +403,160 @@ export function parseMI
       case '[':
         return list();
     }
+    return fail('Expected value');
   }
 
   // Parse a result
-  const result = () =>
+  const result = (): MIvariable =>
   {
-    let variable;
+    let variable = new MIvariable;
+    const name = match(VARIABLE);
 
-    match = VARIABLE.exec(output);
-    if (match)
+    if (name === undefined)
     {
-      variable = new MIvariable;
-      variable.name = match[1];
-      output = output.substring(match[0].length);
-      if (output[0] == '=')
-      {
-        output = output.substring(1);
-        variable.value = value();
-      }
+      return fail('Expected variable');
     }
+    variable.name = name;
+    expect('=');
+    variable.value = value();
     return variable;
   }
 
-  // Parse an out of band record
-  const outOfBandRecord = () =>
+  // Parse the results of a record
+  const results = (record: MIresult | MIasync) =>
   {
-    if (!record)
+    let last: MIvalue | undefined;
+
+    while (output[position] === ',')
     {
-      match = OUT_OF_BAND_RECORD.exec(output);
-      if (match)
+      position++;
+      // Locations of a breakpoint with multiple locations (before GDB 13)
+      if (output[position] === '{' && last !== undefined && !(last instanceof Array) &&
+        typeof last !== 'string')
       {
-        output = output.substring(match[0].length);
-        // async-record
-        if (match[ASYNC])
-        {
-          record = new MIasync;
-          record.token = parseInt(match[TOKEN]);
-          record.type = ASYNC_TYPE[match[ASYNC]];
-          match = ASYNC_CLASS.exec(output);
-          if (match)
-          {
-            record.class = match[1];
-            output = output.substring(match[0].length);
-            while (output[0] == ',')
-            {
-              output = output.substring(1);
-              if (output[0] == '{')
-              {
-                output = output.substring(1);
-              }
-              const r = result();
-              if (r)
-              {
-                record[r.name] = r.value;
-              }
-            }
-            if (output[0] == '}')
-            {
-              output = output.substring(1);
-            }
-          }
-        }
-        // stream-record
-        else if (match[STREAM])
-        {
-          record = new MIstream;
-          record.token = parseInt(match[TOKEN]);
-          record.type = STREAM_TYPE[match[STREAM]];
-          record.content = cstring();
-        }
+        let locations = last['locations'] as MIvalues || [];
+
+        locations.push(value());
+        last['locations'] = locations;
+        continue;
       }
+      const r = result();
+
+      record.results[r.name] = r.value;
+      last = r.value;
     }
   }
 
-  // Parse a result record 
-  const resultRecord = () =>
+  // End of the record, only the new line may follow
+  const end = () =>
   {
-    if (!record)
+    if (!/^[\r\n]*$/.test(rest()))
     {
-      match = RESULT_RECORD.exec(output);
-      if (match)
-      {
-        // result record
-        record = new MIresult;
-        record.token = parseInt(match[TOKEN]);
-        record.class = match[CLASS];
-        output = output.substring(match[0].length);
-        while (output[0] == ',')
-        {
-          output = output.substring(1);
-          const r = result();
-          if (r)
-          {
-            record[r.name] = r.value;
-          }
-        }
-      }
+      fail('Unexpected text after record');
     }
   }
 
-  outOfBandRecord();
-  resultRecord();
+  let record: MIrecord;
+  const token = match(TOKEN);
+  const c = output[position];
+
+  if (token === undefined && PROMPT.test(output))
+  {
+    return new MIprompt;
+  }
+  // result-record
+  if (c === '^')
+  {
+    let r = new MIresult;
+
+    position++;
+    r.token = token === undefined ? undefined : parseInt(token);
+    r.class = match(RESULT_CLASS) || fail('Expected result class');
+    results(r);
+    record = r;
+  }
+  // async-record
+  else if (ASYNC_TYPE[c])
+  {
+    let a = new MIasync;
+
+    position++;
+    a.token = token === undefined ? undefined : parseInt(token);
+    a.type = ASYNC_TYPE[c];
+    a.class = match(ASYNC_CLASS) || fail('Expected async class');
+    results(a);
+    record = a;
+  }
+  // stream-record
+  else if (STREAM_TYPE[c] && token === undefined)
+  {
+    let s = new MIstream;
 
+    position++;
+    s.type = STREAM_TYPE[c];
+    s.content = cstring();
+    record = s;
+  }
+  else
+  {
+    return fail('Expected record');
+  }
+  end();
   return record;
-}
\ No newline at end of file
+}
+
+/**
+The results of a tuple or of a list of results in order. A tuple with a
+repeated name is a list of results, so both are read the same way.
+*/
+export function resultList(value: MIvalue | undefined): MIresults
+{
+  if (value === undefined || typeof value === 'string')
+  {
+    return [];
+  }
+  if (value instanceof Array)
+  {
+    return (value as any[]).filter((v) => v instanceof MIvariable);
+  }
+  const tuple = value;
+
+  return Object.keys(tuple).map((name) =>
+  {
+    let variable = new MIvariable;
+
+    variable.name = name;
+    variable.value = tuple[name];
+    return variable;
+  });
+}
+
+/**
+Format the results of a record as indented text, e.g. for the debug console.
+*/
+export function formatMI(results: MItuple): string
+{
+  return Object.keys(results).map((name) => `${name} = ${formatValue(results[name], '')}`).join('\n');
+}
+
+function formatValue(value: MIvalue, indent: string): string
+{
+  const inner = indent + '  ';
+
+  if (typeof value === 'string')
+  {
+    return value;
+  }
+  if (value instanceof Array)
+  {
+    const items = (value as any[]).map((v) => v instanceof MIvariable ?
+      `${inner}${v.name} = ${formatValue(v.value, inner)}` : inner + formatValue(v, inner));
+
+    return items.length ? `[\n${items.join(',\n')}\n${indent}]` : '[]';
+  }
+  const names = Object.keys(value);
+
+  return names.length ?
+    `{\n${names.map((name) => `${inner}${name} = ${formatValue(value[name], inner)}`).join('\n')}\n${indent}}` :
+    '{}';
+}
@@ -0,0 +1,281 @@
+/**
+profiles.ts
+
+GDB server profiles.
+
+Every GDB server has its own command line arguments, its own way to report
+that it is ready for a connection and its own monitor commands. A profile
+describes these differences, supporting a new GDB server means adding a new
+profile to the list of profiles.
+
+@file
+@copyright   Atomclip, all rights reserved
+@author      Carl van Heezik
+@version     0.0.1
+@since       2026-10-19
+*/
+
+/**
+Options of the debug session used to build the server arguments.
+*/
+export interface ServerOptions {
+	/// TCP/IP port of the GDB server
+	port: number;
+	/// Path to firmware
+	program: string;
+	/// Semihosting enabled
+	semihosting: boolean;
+}
+
+/**
+Features of the GDB server used by the debug session.
+*/
+export interface ServerCapabilities {
+	/// Semihosting console and file I/O
+	semihosting: boolean;
+	/// SWO trace
+	swo: boolean;
+	/// RTT channels on TCP/IP ports
+	rtt: boolean;
+	/// Download firmware to flash memory
+	flash: boolean;
+	/// Halt on exceptions with vector catch
+	vectorCatch: boolean;
+}
+
+export interface ServerProfile {
+	/// Name used in the serverType launch attribute
+	name: string;
+	/// Default path to the GDB server
+	server: string;
+	/// Default TCP/IP port of the GDB server
+	port: number;
+	/// GDB target type, remote or extended-remote
+	target: string;
+	/// Output of the GDB server when it is ready for a connection
+	ready: RegExp[];
+	/// The GDB server prints nothing when ready, probe the TCP/IP port
+	probePort: boolean;
+	/// Output of the GDB server when it failed
+	failure: RegExp;
+	/// Add the default arguments to the arguments of the user
+	args(args: string[], options: ServerOptions): string[];
+	/// GDB MI commands to halt the target
+	halt: string[];
+	/// GDB MI commands to reset the target, the target is halted after reset
+	reset: string[];
+	/// GDB MI commands to download the firmware
+	download: string[];
+	/// GDB MI commands to load a rebuilt firmware on restart, default download
+	reload?: string[];
+	/// GDB MI commands to enable semihosting
+	semihosting: string[];
+	/// GDB MI commands to enable SWO
+	swo(cpuFrequency: number, swoFrequency: number, portMask: number): string[];
+	/// GDB MI commands to enable vector catch, without them DEMCR is written
+	vectorCatch?(vectors: string[]): string[];
+	/// Monitor commands of the GDB server, used for completion in the debug console
+	monitor: string[];
+	capabilities: ServerCapabilities;
+}
+
+/**
+GDB MI command for a monitor command of the GDB server.
+*/
+export function monitor(command: string): string {
+	return `-interpreter-exec console "monitor ${command}"`;
+}
+
+/**
+Add an option with value to the arguments if the user did not set it.
+*/
+function option(args: string[], name: string, value: string): string[] {
+	return args.indexOf(name) < 0 ? args.concat([name, value]) : args;
+}
+
+/**
+Add a flag to the arguments if the user did not set it.
+*/
+function flag(args: string[], name: string): string[] {
+	return args.indexOf(name) < 0 ? args.concat([name]) : args;
+}
+
+const jlink: ServerProfile =
+{
+	name: 'jlink',
+	server: 'JLinkGDBServer',
+	port: 2331,
+	target: 'extended-remote',
+	ready: [/Connected to target/],
+	probePort: false,
+	failure: /Error:|ERROR:/,
+	args: (args, options) => option(args, '-port', options.port.toString()),
+	halt: [monitor('halt')],
+	reset: [monitor('reset')],
+	download: ['-target-download'],
+	semihosting: [monitor('semihosting enable'), monitor('semihosting IOClient 2')],
+	swo: (cpuFrequency, swoFrequency, portMask) =>
+		[monitor(`SWO EnableTarget ${cpuFrequency} ${swoFrequency} 0x${portMask.toString(16)} 0`)],
+	monitor: ['clrbp', 'exec', 'flash breakpoints', 'go', 'halt', 'memU8', 'memU16', 'memU32',
+		'reg', 'regs', 'reset', 'semihosting enable', 'semihosting IOClient', 'setbp', 'sleep',
+		'speed', 'step', 'SWO DisableTarget', 'SWO EnableTarget', 'waithalt'],
+	capabilities: { semihosting: true, swo: true, rtt: true, flash: true, vectorCatch: true }
+};
+
+const openocd: ServerProfile =
+{
+	name: 'openocd',
+	server: 'openocd',
+	port: 3333,
+	target: 'extended-remote',
+	ready: [/Info : Listening on port \d+ for gdb connections/, /Info : Listening/],
+	probePort: false,
+	failure: /Error:|ERROR:/,
+	args: (args, options) => args.some((a) => a.indexOf('gdb_port') >= 0) ?
+		args : args.concat(['-c', `gdb_port ${options.port}`]),
+	halt: [monitor('halt')],
+	reset: [monitor('reset halt')],
+	download: ['-target-download'],
+	semihosting: [monitor('arm semihosting enable'), monitor('arm semihosting_fileio enable')],
+	swo: (cpuFrequency, swoFrequency, portMask) => [],
+	vectorCatch: (vectors) =>
+		[monitor(`cortex_m vector_catch ${vectors.length ? vectors.join(' ') : 'none'}`)],
+	monitor: ['arm semihosting', 'cortex_m maskisr', 'cortex_m vector_catch', 'flash banks',
+		'flash info', 'halt', 'mdb', 'mdh', 'mdw', 'mwb', 'mwh', 'mww', 'reg', 'reset halt',
+		'reset init', 'reset run', 'resume', 'step', 'targets'],
+	capabilities: { semihosting: true, swo: false, rtt: true, flash: true, vectorCatch: true }
+};
+
+const pyocd: ServerProfile =
+{
+	name: 'pyocd',
+	server: 'pyocd',
+	port: 3333,
+	target: 'extended-remote',
+	ready: [/GDB server (started|listening)/i],
+	probePort: false,
+	failure: /CRITICAL|Error:/,
+	args: (args, options) => {
+		if (args[0] !== 'gdbserver' && args[0] !== 'gdb') {
+			args = ['gdbserver'].concat(args);
+		}
+		args = option(args, '--port', options.port.toString());
+		if (options.semihosting) {
+			args = flag(args, '--semihosting');
+			// The console and file I/O go through GDB, pyOCD prints on its own console
+			if (!args.some((a) => a.indexOf('semihost_use_syscalls') >= 0)) {
+				args = args.concat(['-O', 'semihost_use_syscalls=true']);
+			}
+		}
+		return args;
+	},
+	halt: [monitor('halt')],
+	reset: [monitor('reset halt')],
+	download: ['-target-download'],
+	semihosting: [],
+	swo: (cpuFrequency, swoFrequency, portMask) => [],
+	vectorCatch: (vectors) => {
+		const letters: { [name: string]: string } =
+		{
+			reset: 'r', mm_err: 'm', nocp_err: 'p', chk_err: 'c',
+			state_err: 's', bus_err: 'b', int_err: 'i', hard_err: 'h'
+		};
+		const catches = vectors.map((v) => letters[v]).join('');
+		return [monitor(`set vector-catch ${catches || 'n'}`)];
+	},
+	monitor: ['continue', 'halt', 'read32', 'reg', 'reset', 'reset halt', 'set vector-catch',
+		'show vector-catch', 'status', 'step', 'write32'],
+	capabilities: { semihosting: true, swo: false, rtt: false, flash: true, vectorCatch: true }
+};
+
+const stlink: ServerProfile =
+{
+	name: 'stlink',
+	server: 'ST-LINK_gdbserver',
+	port: 61234,
+	target: 'extended-remote',
+	ready: [/Waiting for debugger connection/],
+	probePort: false,
+	failure: /Error|ERROR/,
+	args: (args, options) => flag(option(args, '-p', options.port.toString()), '-d'),
+	halt: [monitor('halt')],
+	reset: [monitor('reset')],
+	download: ['-target-download'],
+	semihosting: [],
+	swo: (cpuFrequency, swoFrequency, portMask) => [],
+	monitor: ['halt', 'reset'],
+	capabilities: { semihosting: false, swo: false, rtt: false, flash: true, vectorCatch: true }
+};
+
+/**
+QEMU runs the firmware without hardware. The firmware is loaded by QEMU
+(-kernel) and the gdbstub waits for the GDB client (-S) without any output.
+*/
+const qemu: ServerProfile =
+{
+	name: 'qemu',
+	server: 'qemu-system-arm',
+	port: 1234,
+	target: 'remote',
+	ready: [],
+	probePort: true,
+	failure: /qemu-system-[a-z0-9_]+: /,
+	args: (args, options) => {
+		args = flag(flag(args, '-nographic'), '-S');
+		args = option(args, '-gdb', `tcp::${options.port}`);
+		args = option(args, '-kernel', options.program);
+		if (options.semihosting) {
+			// GDB handles the semihosting calls, QEMU would print on its own console
+			args = option(args, '-semihosting-config', 'enable=on,target=gdb');
+		}
+		return args;
+	},
+	halt: [],
+	reset: [monitor('system_reset')],
+	download: [],
+	// QEMU loaded the firmware at start, a rebuilt firmware is written to its
+	// memory and the core starts with the stack pointer of the vector table
+	reload: ['-target-download', '-data-evaluate-expression "$sp = *(unsigned int *)0"'],
+	semihosting: [],
+	swo: (cpuFrequency, swoFrequency, portMask) => [],
+	monitor: ['cont', 'help', 'info mtree', 'info registers', 'info roms', 'stop', 'system_reset',
+		'x', 'xp'],
+	capabilities: { semihosting: true, swo: false, rtt: false, flash: false, vectorCatch: false }
+};
+
+/**
+All known GDB server profiles by name.
+*/
+export const profiles: { [name: string]: ServerProfile } =
+{
+	jlink: jlink,
+	openocd: openocd,
+	pyocd: pyocd,
+	stlink: stlink,
+	qemu: qemu
+};
+
+/**
+Find the profile for the serverType. Without serverType the profile is derived
+from the name of the GDB server, J-Link is the default.
+*/
+export function findProfile(serverType?: string, server?: string): ServerProfile | undefined {
+	if (serverType) {
+		return profiles[serverType.toLowerCase()];
+	}
+	const name = (server || '').toLowerCase();
+
+	if (name.indexOf('openocd') >= 0) {
+		return openocd;
+	}
+	if (name.indexOf('pyocd') >= 0) {
+		return pyocd;
+	}
+	if (name.indexOf('st-link_gdbserver') >= 0) {
+		return stlink;
+	}
+	if (name.indexOf('qemu') >= 0) {
+		return qemu;
+	}
+	return jlink;
+}
@@ -0,0 +1,378 @@
+/**
+rtos.ts
+
+RTOS awareness for the GNU source level debugger.
+
+The kernel data structures of the RTOS are read with GDB expressions, so the
+offsets of the structures come from the debug information of the firmware.
+Every task of the RTOS is shown as a thread. Tasks that are not running have
+their registers saved on their stack, these registers are used to unwind the
+stack of the task.
+
+@file
+@copyright   Atomclip, all rights reserved
+@author      Carl van Heezik
+@version     0.0.1
+@since       2026-10-19
+*/
+import * as bits from './bits';
+
+/**
+Access to the target used by the RTOS awareness.
+*/
+export interface Target {
+	/// Evaluate a GDB expression, resolves to the value as shown by GDB.
+	evaluate(expression: string): Promise<string>;
+	/// Read 32 bit words from target memory.
+	readWords(address: number, count: number): Promise<number[]>;
+}
+
+/**
+Cortex-M core registers restored from the saved context of a task.
+*/
+export type Registers = { [name: string]: number };
+
+/**
+Thread ids of tasks that are not running start at this number, so they never
+collide with the thread ids of GDB.
+*/
+const THREAD_ID = 1000;
+
+/**
+Coprocessor Access Control Register, the CP10 and CP11 fields enable the FPU.
+*/
+const CPACR = 0xE000ED88;
+
+/**
+Unwind the exception frame that the Cortex-M core pushed on the stack, e.g.
+when a task was switched out. The callee saved registers r4-r11 are stored by
+the RTOS. The extended frame also holds the floating point context.
+*/
+export async function exceptionFrame
+	(
+	target: Target,
+	registers: Registers,
+	sp: number,
+	extended: boolean
+	): Promise<Registers> {
+	const frame = await target.readWords(sp, 8);
+	const names = ['r0', 'r1', 'r2', 'r3', 'r12', 'lr', 'pc', 'xpsr'];
+
+	names.forEach((name, i) => registers[name] = frame[i]);
+	// Floating point context s0-s15, fpscr and reserved word
+	sp += extended ? 26 * 4 : 8 * 4;
+	// Stack was aligned to 8 bytes on exception entry
+	if (bits.isSet(registers['xpsr'], 9)) {
+		sp += 4;
+	}
+	registers['sp'] = sp;
+	return registers;
+}
+
+export class RtosThread {
+	/// Thread id shown by the UI
+	public id: number;
+	/// Address of the task control block
+	public tcb: number;
+	public name: string;
+	public state: string;
+	public priority: number;
+	/// The task is running on the core
+	public current: boolean;
+	/// Stack usage in bytes, undefined if unknown
+	public stackUsed?: number;
+	/// Stack size in bytes, undefined if unknown
+	public stackSize?: number;
+	/// Free stack space in bytes, used when the stack size is unknown
+	public stackFree?: number;
+
+	/// Description shown in the call stack view
+	description(): string {
+		let text = `${this.name} (${this.state}, priority ${this.priority}`;
+
+		if (this.stackUsed !== undefined) {
+			text += `, stack ${this.stackUsed}`;
+			if (this.stackSize !== undefined) {
+				text += ` of ${this.stackSize}`;
+			}
+			text += ' bytes';
+		}
+		else if (this.stackFree !== undefined) {
+			text += `, ${this.stackFree} bytes stack free`;
+		}
+		return text + ')';
+	}
+}
+
+export abstract class Rtos {
+	/// Name of the RTOS
+	public abstract name: string;
+	/// Thread id by task control block address
+	private ids: Map<number, number> = new Map();
+	private nextId = THREAD_ID;
+
+	constructor(protected target: Target) {
+	}
+
+	/// Check if the firmware uses this RTOS.
+	abstract detect(): Promise<boolean>;
+
+	/// List all tasks.
+	abstract threads(): Promise<RtosThread[]>;
+
+	/// Registers saved on the stack of a task that is not running.
+	abstract registers(thread: RtosThread): Promise<Registers>;
+
+	/// Stable thread id for a task control block.
+	protected threadId(tcb: number): number {
+		let id = this.ids.get(tcb);
+
+		if (id === undefined) {
+			id = this.nextId++;
+			this.ids.set(tcb, id);
+		}
+		return id;
+	}
+
+	/// Evaluate an expression to a number.
+	protected number(expression: string): Promise<number> {
+		return this.target.evaluate(expression).then((value) => {
+			let number = parseInt(value);
+
+			if (isNaN(number)) {
+				throw new Error(`${expression} is not a number`);
+			}
+			return number;
+		});
+	}
+
+	/// Evaluate an expression to a string.
+	protected string(expression: string): Promise<string> {
+		return this.target.evaluate(`(char*)(${expression})`).then((value) => {
+			const match = /"(.*)"/.exec(value);
+			return match ? match[1] : '';
+		});
+	}
+}
+
+/**
+FreeRTOS keeps its tasks in the ready lists (one per priority), the delayed
+lists, the pending ready list, the suspended list and the termination list.
+*/
+export class FreeRTOS extends Rtos {
+	public name = 'FreeRTOS';
+
+	detect(): Promise<boolean> {
+		return this.target.evaluate('&pxCurrentTCB').then(() => true, () => false);
+	}
+
+	async threads(): Promise<RtosThread[]> {
+		const current = await this.number('(unsigned int)pxCurrentTCB');
+		const priorities = await this.number
+			('sizeof(pxReadyTasksLists)/sizeof(pxReadyTasksLists[0])');
+		let lists: [string, string][] = [];
+		let threads: RtosThread[] = [];
+
+		for (let p = priorities - 1; p >= 0; p--) {
+			lists.push([`pxReadyTasksLists[${p}]`, 'Ready']);
+		}
+		lists.push(['xPendingReadyList', 'Ready']);
+		lists.push(['xDelayedTaskList1', 'Blocked']);
+		lists.push(['xDelayedTaskList2', 'Blocked']);
+		lists.push(['xSuspendedTaskList', 'Suspended']);
+		lists.push(['xTasksWaitingTermination', 'Deleted']);
+
+		for (let [list, state] of lists) {
+			let tcbs: number[];
+
+			try {
+				tcbs = await this.list(list);
+			}
+			catch (e) {
+				// The list is not used in this configuration
+				continue;
+			}
+			for (let tcb of tcbs) {
+				let thread = await this.thread(tcb);
+
+				thread.current = tcb === current;
+				thread.state = thread.current ? 'Running' : state;
+				threads.push(thread);
+			}
+		}
+		return threads;
+	}
+
+	async registers(thread: RtosThread): Promise<Registers> {
+		const top = await this.number
+			(`(unsigned int)((struct tskTaskControlBlock*)${thread.tcb})->pxTopOfStack`);
+		const words = await this.target.readWords(top, 9);
+		let registers: Registers = {};
+
+		// r4-r11 are saved by the context switch
+		for (let i = 0; i < 8; i++) {
+			registers['r' + (i + 4)] = words[i];
+		}
+		// The ports with floating point unit (ARM_CM4F, ARM_CM7) enable the FPU
+		// and also save EXC_RETURN and s16-s31
+		if (await this.fpuEnabled()) {
+			const excReturn = words[8];
+			const extended = !bits.isSet(excReturn, 4);
+			return exceptionFrame(this.target, registers, top + (extended ? 25 : 9) * 4, extended);
+		}
+		return exceptionFrame(this.target, registers, top + 8 * 4, false);
+	}
+
+	/// The FPU is enabled in CPACR.
+	private async fpuEnabled(): Promise<boolean> {
+		const [cpacr] = await this.target.readWords(CPACR, 1);
+		return bits.field(cpacr, 20, 4) !== 0;
+	}
+
+	/// Task control blocks in a list.
+	private async list(list: string): Promise<number[]> {
+		const count = await this.number(`${list}.uxNumberOfItems`);
+		let item = await this.number(`(unsigned int)${list}.xListEnd.pxNext`);
+		let tcbs: number[] = [];
+
+		for (let i = 0; i < count; i++) {
+			const listItem = `((struct xLIST_ITEM*)${item})`;
+			tcbs.push(await this.number(`(unsigned int)${listItem}->pvOwner`));
+			item = await this.number(`(unsigned int)${listItem}->pxNext`);
+		}
+		return tcbs;
+	}
+
+	private async thread(tcb: number): Promise<RtosThread> {
+		const task = `((struct tskTaskControlBlock*)${tcb})`;
+		let thread = new RtosThread;
+
+		thread.id = this.threadId(tcb);
+		thread.tcb = tcb;
+		thread.name = await this.string(`${task}->pcTaskName`);
+		thread.priority = await this.number(`${task}->uxPriority`);
+
+		const top = await this.number(`(unsigned int)${task}->pxTopOfStack`);
+		const stack = await this.number(`(unsigned int)${task}->pxStack`);
+		try {
+			// Only available with portSTACK_GROWTH > 0 or configRECORD_STACK_HIGH_ADDRESS
+			const end = await this.number(`(unsigned int)${task}->pxEndOfStack`);
+			thread.stackSize = end - stack + 4;
+			thread.stackUsed = end - top + 4;
+		}
+		catch (e) {
+			// Without the end of the stack only the free space is known
+			thread.stackFree = top - stack;
+		}
+		return thread;
+	}
+}
+
+/**
+Zephyr keeps a list of all threads in _kernel.threads when it is built with
+CONFIG_THREAD_MONITOR.
+*/
+export class Zephyr extends Rtos {
+	public name = 'Zephyr';
+
+	detect(): Promise<boolean> {
+		return this.target.evaluate('&_kernel.threads').then(() => true, () => false);
+	}
+
+	async threads(): Promise<RtosThread[]> {
+		// Maximum number of threads, protects against a corrupt list.
+		const MAX_THREADS = 256;
+		let current: number;
+		let threads: RtosThread[] = [];
+
+		try {
+			current = await this.number('(unsigned int)_kernel.cpus[0].current');
+		}
+		catch (e) {
+			// Zephyr before version 2.0
+			current = await this.number('(unsigned int)_kernel.current');
+		}
+		let address = await this.number('(unsigned int)_kernel.threads');
+
+		while (address && threads.length < MAX_THREADS) {
+			const thread = `((struct k_thread*)${address})`;
+			let t = new RtosThread;
+
+			t.id = this.threadId(address);
+			t.tcb = address;
+			t.current = address === current;
+			try {
+				// Only available with CONFIG_THREAD_NAME
+				t.name = await this.string(`${thread}->name`);
+			}
+			catch (e) {
+				t.name = '';
+			}
+			t.name = t.name || '0x' + address.toString(16);
+			t.priority = await this.number(`${thread}->base.prio`);
+			t.state = this.state(await this.number(`${thread}->base.thread_state`));
+			if (t.current) {
+				t.state = 'Running';
+			}
+			try {
+				const start = await this.number(`(unsigned int)${thread}->stack_info.start`);
+				const size = await this.number(`${thread}->stack_info.size`);
+				const psp = await this.number(`(unsigned int)${thread}->callee_saved.psp`);
+				t.stackSize = size;
+				t.stackUsed = start + size - psp;
+			}
+			catch (e) {
+				t.stackSize = undefined;
+			}
+			threads.push(t);
+			address = await this.number(`(unsigned int)${thread}->next_thread`);
+		}
+		return threads;
+	}
+
+	async registers(thread: RtosThread): Promise<Registers> {
+		const saved = `((struct k_thread*)${thread.tcb})->callee_saved`;
+		let registers: Registers = {};
+
+		// v1-v8 are the callee saved registers r4-r11
+		for (let i = 1; i <= 8; i++) {
+			registers['r' + (i + 3)] = await this.number(`${saved}.v${i}`);
+		}
+		const psp = await this.number(`(unsigned int)${saved}.psp`);
+		return exceptionFrame(this.target, registers, psp, false);
+	}
+
+	/// Thread state from the _THREAD_xxx bits of base.thread_state.
+	private state(state: number): string {
+		if (bits.isSet(state, 3)) {
+			return 'Dead';
+		}
+		if (bits.isSet(state, 4)) {
+			return 'Suspended';
+		}
+		if (bits.isSet(state, 2)) {
+			return 'Prestart';
+		}
+		if (bits.isSet(state, 1)) {
+			return 'Pending';
+		}
+		return 'Ready';
+	}
+}
+
+/**
+Create the RTOS awareness by name. The name 'auto' detects the RTOS used by
+the firmware. Resolves to undefined if no RTOS is found.
+*/
+export async function detectRtos(name: string, target: Target): Promise<Rtos | undefined> {
+	const kernels: Rtos[] = [new FreeRTOS(target), new Zephyr(target)];
+
+	for (let kernel of kernels) {
+		if (name === 'auto' || name.toLowerCase() === kernel.name.toLowerCase()) {
+			if (await kernel.detect()) {
+				return kernel;
+			}
+		}
+	}
+	return undefined;
+}
@@ -0,0 +1,210 @@
+/**
+rtt.ts
+
+SEGGER RTT (Real Time Transfer) console.
+
+The GDB server exposes every RTT channel on its own TCP/IP port, for example
+JLinkGDBServer shows channel 0 on telnet port 19021. Up-channel data of the
+target is shown in a terminal or in the debug console, text typed in the
+terminal is sent to the down-channel of the target.
+
+@file
+@copyright   Atomclip, all rights reserved
+@author      Carl van Heezik
+@version     0.0.1
+@since       2026-10-19
+*/
+import * as vscode from 'vscode';
+import * as net from 'net';
+
+/**
+Time between two attempts to connect to a RTT channel.
+*/
+const RECONNECT_DELAY = 1000;
+
+/**
+RTT configuration, the schema lives in the package.json of the gnu-debugger
+extension.
+*/
+export interface RttConfiguration {
+	/// TCP/IP address of the GDB server
+	host: string;
+	/// RTT channels
+	channels: RttChannel[];
+}
+
+export interface RttChannel {
+	/// Number of the RTT channel
+	channel: number;
+	/// TCP/IP port of the channel
+	port: number;
+	/// Name of the terminal
+	label: string;
+	/// terminal or console (debug console)
+	output: string;
+}
+
+export interface RttHandlers {
+	/// Up-channel data from the target
+	data(text: string): void;
+	/// Connection made or lost
+	status(connected: boolean): void;
+}
+
+/**
+Connection with one RTT channel of the GDB server. The connection is made again
+when it is lost, for example because the GDB server restarted, until it is
+closed.
+*/
+export class RttConnection {
+	private socket: net.Socket | undefined;
+	private timer: NodeJS.Timer | undefined;
+	private closed = false;
+
+	constructor
+		(
+		private host: string,
+		private port: number,
+		private handlers: RttHandlers
+		) {
+	}
+
+	open() {
+		this.closed = false;
+		this.connect();
+	}
+
+	/// Send text to the down-channel of the target.
+	write(text: string) {
+		if (this.socket) {
+			this.socket.write(text);
+		}
+	}
+
+	close() {
+		this.closed = true;
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = undefined;
+		}
+		if (this.socket) {
+			this.socket.destroy();
+			this.socket = undefined;
+		}
+	}
+
+	/// Connect again, e.g. after a restart of the target.
+	reconnect() {
+		if (this.socket) {
+			// The close event schedules the new connection
+			this.socket.destroy();
+		}
+		else if (!this.closed) {
+			this.schedule();
+		}
+	}
+
+	private connect() {
+		let connected = false;
+		let socket = net.connect(this.port, this.host);
+
+		socket.setEncoding('utf8');
+		socket.on('connect', () => {
+			connected = true;
+			this.handlers.status(true);
+		});
+		socket.on('data', (text: string) => this.handlers.data(text));
+		// A close event always follows the error event
+		socket.on('error', () => { });
+		socket.on('close', () => {
+			if (this.socket === socket) {
+				this.socket = undefined;
+			}
+			if (connected) {
+				this.handlers.status(false);
+			}
+			if (!this.closed) {
+				this.schedule();
+			}
+		});
+		this.socket = socket;
+	}
+
+	private schedule() {
+		if (!this.timer) {
+			this.timer = setTimeout(() => {
+				this.timer = undefined;
+				if (!this.closed) {
+					this.connect();
+				}
+			}, RECONNECT_DELAY);
+		}
+	}
+}
+
+/**
+Terminal that shows a RTT channel. The terminal echoes the typed text, the
+target receives the text when enter is pressed.
+*/
+export class RttTerminal implements vscode.Pseudoterminal {
+	private writeEmitter = new vscode.EventEmitter<string>();
+	private line = '';
+	private terminal: vscode.Terminal | undefined;
+
+	public onDidWrite: vscode.Event<string> = this.writeEmitter.event;
+
+	/// Text typed by the user
+	public input: (text: string) => void = () => { };
+
+	constructor(private name: string) {
+	}
+
+	/// Show the terminal, it is created the first time.
+	show() {
+		if (!this.terminal) {
+			this.terminal = vscode.window.createTerminal({ name: this.name, pty: this });
+		}
+		this.terminal.show(true);
+	}
+
+	open(initialDimensions: vscode.TerminalDimensions | undefined): void {
+	}
+
+	close(): void {
+		this.terminal = undefined;
+	}
+
+	/// Show up-channel data, a terminal needs CR-LF line endings.
+	write(text: string) {
+		this.writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+	}
+
+	handleInput(data: string): void {
+		for (let c of data) {
+			switch (c) {
+				case '\r':
+					this.writeEmitter.fire('\r\n');
+					this.input(this.line + '\n');
+					this.line = '';
+					break;
+				case '\x7f':
+					if (this.line.length) {
+						this.line = this.line.substring(0, this.line.length - 1);
+						this.writeEmitter.fire('\b \b');
+					}
+					break;
+				default:
+					this.line += c;
+					this.writeEmitter.fire(c);
+					break;
+			}
+		}
+	}
+
+	dispose() {
+		if (this.terminal) {
+			this.terminal.dispose();
+			this.terminal = undefined;
+		}
+	}
+}
@@ -14,11 +14,14 @@ The DebugSession is the adapter code for Visual Studio Code.
 'use strict';
 import * as vscode from 'vscode';
 import * as os from 'os';
+import * as fs from 'fs';
+import * as net from 'net';
+import { StringDecoder } from 'string_decoder';
 
 import {
-	DebugSession,
-	InitializedEvent, TerminatedEvent,
-	OutputEvent,
+	DebugSession, Response,
+	InitializedEvent, TerminatedEvent, Event,
+	OutputEvent, BreakpointEvent,
 	StoppedEvent, ContinuedEvent,
 
 	Thread, StackFrame, Source, Scope, Breakpoint,
@@ -27,6 +30,13 @@ import {
 	DebugProtocol
 } from 'vscode-debugprotocol';
 import * as gdbMI from './parser';
+import * as svd from './svd';
+import * as bits from './bits';
+import * as rtos from './rtos';
+import * as swo from './swo';
+import * as rtt from './rtt';
+import * as profiles from './profiles';
+import * as fault from './fault';
 const { spawn } = require('child_process');
 // const { spawnSync } = require('child_process');
 
@@ -37,6 +47,49 @@ the variablesRequestFunction
 const REGISTER_SCOPE = 1;
 const CUSTOM_SCOPE = 2;
 const LOCAL_SCOPE = 3;
+const PERIPHERAL_SCOPE = 4;
+const GLOBAL_SCOPE = 5;
+const STATIC_SCOPE = 6;
+
+/*
+Default time in ms to wait for the result of a GDB MI command and for the
+download of the firmware.
+*/
+const COMMAND_TIMEOUT = 10000;
+const DOWNLOAD_TIMEOUT = 120000;
+
+/*
+Time in ms that GDB and the GDB server get to stop before they are killed.
+*/
+const SHUTDOWN_TIMEOUT = 2000;
+
+/*
+Number of lines of GDB and GDB server output shown when they exit unexpectedly.
+*/
+const TAIL_LINES = 10;
+
+/*
+Output category of the semihosting output of the target. GDB forwards the
+output as target stream, separate from the GDB console stream. Messages of the
+debug adapter use the console category, SWO and RTT use stdout.
+*/
+const SEMIHOSTING_CATEGORY = 'semihosting';
+
+/*
+A monitor command of the GDB server sent through the console interpreter.
+*/
+const MONITOR_COMMAND = /^-interpreter-exec console "(monitor|mon)\s/;
+
+/*
+SWO output channels by name. The channels are shared by all debug sessions so
+the output is still available after the session ends.
+*/
+const swoChannels: { [name: string]: vscode.OutputChannel } = {};
+
+/*
+RTT terminals by name, shared by all debug sessions like the SWO channels.
+*/
+const rttTerminals: { [name: string]: rtt.RttTerminal } = {};
 
 /**
 Variable object returned by -var-create Command
@@ -82,6 +135,15 @@ export class Variable implements DebugProtocol.Variable {
 	be retrieved by passing variablesReference to the VariablesRequest. 
 	*/
 	variablesReference: number;
+	/**
+	The number of indexed child variables, the elements of an array. The UI
+	requests the elements in chunks.
+	*/
+	indexedVariables?: number;
+	/**
+	The number of named child variables.
+	*/
+	namedVariables?: number;
 	/** 
 	Properties of a variable that can be used to determine how to render the 
 	variable in the UI. 
@@ -92,6 +154,11 @@ export class Variable implements DebugProtocol.Variable {
 	'EvaluateRequest' to fetch the variable's value. 
 	*/
 	evaluateName: string;
+	/**
+	Memory reference to the data of a pointer or array. Used by the client to 
+	view the binary data of the variable.
+	*/
+	memoryReference?: string;
 
 	format: string = 'natural';
 
@@ -107,8 +174,8 @@ export class Variable implements DebugProtocol.Variable {
 			value = match[1];
 		}
 		
-		this.putValue(value);
 		this.type = type;
+		this.putValue(value);
 		this.variablesReference = 0;
 		this.evaluateName =
 			varName.replace(/.public|.private|.protected|.[0-9]*_anonymous/g, '');
@@ -116,9 +183,6 @@ export class Variable implements DebugProtocol.Variable {
 
 	putValue(value: string) {
 		if (value) {
-			value = value.replace(/\\\"/g, '\"');
-			value = value.replace(/\\\'/g, '\'');
-			value = value.replace(/\\\\/g, '\\');
 			if (value[0] == '0' && value[1] == 'x') {
 				let i = value.indexOf(' ');
 				if (i > 0) {
@@ -133,23 +197,32 @@ export class Variable implements DebugProtocol.Variable {
 			value = '0b' + value;
 		}
 		this.value = value;
+		// The value of a pointer is the address of the data
+		if (this.isPointer()) {
+			const match = /^0x[0-9A-Fa-f]+/.exec(value);
+			if (match) {
+				this.memoryReference = match[0];
+			}
+		}
+	}
+
+	isPointer(): boolean {
+		return /\*\s*$/.test(this.type || '');
+	}
+
+	isArray(): boolean {
+		return /\]\s*$/.test(this.type || '');
 	}
 
 	change(record: gdbMI.MIresult) {
-		let value = record['value'];
-		if (value) {
-			value = value.replace(/\\\"/g, '\"');
-			value = value.replace(/\\\'/g, '\'');
-			value = value.replace(/\\\\/g, '\\');
-		}
-		this.value = value;
-		this.type = record['type'];
-		this.threadId = record['thread-id'];
-		this.hasMore = record['has_more'];
-		this.dynamic = record['dynamic'];
+		this.value = record.results['value'] as string;
+		this.type = record.results['type'] as string;
+		this.threadId = parseInt(record.results['thread-id'] as string);
+		this.hasMore = parseInt(record.results['has_more'] as string);
+		this.dynamic = parseInt(record.results['dynamic'] as string);
 		this.presentationHint =
 			{
-				kind: record['displayhint']
+				kind: record.results['displayhint'] as string
 			};
 	}
 
@@ -164,17 +237,352 @@ export interface GnuBreakpoint {
 	number: number;
 	/// This breakpoint is verified in the current loaded firmware.
 	verified: boolean;
+	/// Identifier of the breakpoint in the UI
+	id?: number;
 }
 
 class ErrorBreakpoint extends Breakpoint implements GnuBreakpoint {
 	/// Unique breakpoint number
 	number: number = 0;
+	/// Reason why the breakpoint could not be set
+	message?: string;
 
 	constructor(verified: boolean, line?: number, column?: number, source?: Source) {
 		super(verified, line, column, source);
 	}
 }
 
+/**
+Breakpoint resolved by GDB. A breakpoint with a location in the source is 
+shown at that location.
+*/
+class ResolvedBreakpoint extends Breakpoint implements GnuBreakpoint {
+	/// Unique breakpoint number
+	number: number;
+
+	/**
+	Create the breakpoint from the breakpoint tuple returned by -break-insert.
+	A breakpoint with multiple locations is shown at its first location.
+	*/
+	constructor(bkpt: any) {
+		let location = bkpt;
+
+		if (!location.line && bkpt.locations && bkpt.locations.length) {
+			location = bkpt.locations[0];
+		}
+		if (location.file) {
+			super(true, parseInt(location.line), 0, new Source(location.file, location.fullname));
+		}
+		else {
+			super(true);
+		}
+		this.number = parseInt(bkpt.number);
+	}
+}
+
+/**
+Convert a hit condition to a GDB ignore count. GDB can only skip the first 
+hits of a breakpoint, so only the conditions "N", ">=N" and ">N" are supported.
+"==N" would stop at every hit after N too. Returns -1 if the hit condition can
+not be mapped.
+*/
+function ignoreCount(hitCondition: string): number {
+	const match = /^\s*(>=|>)?\s*(\d+)\s*$/.exec(hitCondition);
+	if (!match) {
+		return -1;
+	}
+	const count = parseInt(match[2]);
+	if (match[1] === '>') {
+		return count;
+	}
+	return Math.max(count - 1, 0);
+}
+
+/**
+Options for -break-insert for a breakpoint condition and hit condition.
+Returns undefined if the hit condition is not supported.
+*/
+function breakpointOptions(condition?: string, hitCondition?: string): string | undefined {
+	let options = '';
+
+	if (condition) {
+		options += `-c "${escape(condition)}" `;
+	}
+	if (hitCondition) {
+		let count = ignoreCount(hitCondition);
+
+		if (count < 0) {
+			return undefined;
+		}
+		options += `-i ${count} `;
+	}
+	return options;
+}
+
+/**
+GDB MI command that inserts a source breakpoint. A logpoint is a dprintf, GDB
+prints the message without a stop, so a step over the logpoint goes on. The
+expressions between curly braces are printed with %V (GDB 13 and later).
+*/
+function sourceBreakpointInsert
+	(
+	options: string,
+	filename: string,
+	b: DebugProtocol.SourceBreakpoint
+	): string {
+	const location = `"${filename}:${b.line}"`;
+
+	if (!b.logMessage) {
+		return `-break-insert ${options}${location}`;
+	}
+	let expressions: string[] = [];
+	const format = b.logMessage.replace(/%/g, '%%').replace(/\{([^}]+)\}/g, (all, expression) => {
+		expressions.push(expression);
+		return '%V';
+	});
+	return `-dprintf-insert ${options}${location} "${escape(format)}\\n"` +
+		expressions.map((expression) => ` "${escape(expression)}"`).join('');
+}
+
+/**
+GDB CLI commands accepted by the debug console, other input is evaluated as an
+expression.
+*/
+const CLI_COMMANDS =
+	[
+		'add-symbol-file', 'advance', 'awatch', 'b', 'backtrace', 'break', 'bt', 'c', 'call',
+		'catch', 'clear', 'condition', 'continue', 'define', 'delete', 'detach', 'disable',
+		'disassemble', 'display', 'down', 'dprintf', 'dump', 'echo', 'enable', 'file', 'finish',
+		'frame', 'hbreak', 'help', 'ignore', 'info', 'jump', 'list', 'load', 'maint',
+		'maintenance', 'mon', 'monitor', 'n', 'next', 'nexti', 'ni', 'output', 'p', 'print',
+		'printf', 'ptype', 'python', 'restore', 'rwatch', 's', 'set', 'shell', 'show', 'si',
+		'source', 'step', 'stepi', 'symbol-file', 'target', 'tbreak', 'thbreak', 'thread',
+		'undisplay', 'until', 'up', 'watch', 'whatis', 'where', 'x'
+	];
+
+/**
+Test if the input of the debug console is a GDB CLI command. The command name
+is followed by a format (x/16x), by its arguments or by nothing. A command name
+followed by an operator is a variable in an expression, e.g. "x + 1".
+*/
+function isCliCommand(input: string): boolean {
+	const match = /^([a-z][a-z-]*)(\/|\s+(?=[^\s=+\-*\/%&|^<>!?.\[(,])|$)/.exec(input);
+
+	return match !== null && CLI_COMMANDS.indexOf(match[1]) >= 0 &&
+		// A single letter alone is a variable
+		(match[2] !== '' || match[1].length > 1);
+}
+
+/**
+Start of the word before the cursor that is completed, e.g. the member after
+"myStruct." or the subcommand after "info ".
+*/
+function wordStart(text: string): number {
+	return text.length - (/[\w$]*$/.exec(text) || [''])[0].length;
+}
+
+/**
+Escape a string so it can be passed as a C string to a GDB MI command.
+*/
+function escape(text: string): string {
+	return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+Instruction breakpoint of the 'setInstructionBreakpoints' request. This request
+is newer than the debug protocol used by the adapter and is handled as custom
+request.
+*/
+interface InstructionBreakpoint {
+	/// The instruction reference (address) from the disassemble request.
+	instructionReference: string;
+	/// Optional offset in bytes from the instruction reference.
+	offset?: number;
+	/// Optional expression for conditional breakpoints.
+	condition?: string;
+	/// Optional expression that controls how many hits are ignored.
+	hitCondition?: string;
+}
+
+interface SetInstructionBreakpointsArguments {
+	/// The instruction breakpoints to set.
+	breakpoints: InstructionBreakpoint[];
+}
+
+/**
+Convert little endian bytes in hexadecimal notation, as returned by 
+-data-read-memory-bytes, to a number.
+*/
+function littleEndian(contents: string): number {
+	let value = 0;
+
+	for (let i = contents.length - 2; i >= 0; i -= 2) {
+		value = value * 256 + parseInt(contents.substr(i, 2), 16);
+	}
+	return value;
+}
+
+/**
+Arguments of the 'writeMemory' request. This request is newer than the debug
+protocol used by the adapter and is handled as custom request.
+*/
+interface WriteMemoryArguments {
+	/// Memory reference to the base location to which data should be written.
+	memoryReference: string;
+	/// Optional offset (in bytes) to be applied to the reference location.
+	offset?: number;
+	/// Allow a partial write when some of the bytes can not be written.
+	allowPartial?: boolean;
+	/// Bytes to write, encoded using base64.
+	data: string;
+}
+
+/**
+Keep the last lines of output of a process.
+*/
+function tail(lines: string[], line: string) {
+	lines.push(line);
+	if (lines.length > TAIL_LINES) {
+		lines.shift();
+	}
+}
+
+/**
+Message for a process that exited, with its last lines of output.
+*/
+function exitText(name: string, code: number | null, signal: string | null, lines: string[]): string {
+	let text = `${name} exited with ${signal ? 'signal ' + signal : 'code ' + code}`;
+
+	if (lines.length) {
+		text += ':\n' + lines.join('\n');
+	}
+	return text;
+}
+
+/**
+Test if the client asks to step one instruction instead of one line, e.g. from
+the disassembly view. The granularity is not part of this protocol version.
+*/
+function instructionStep(args: DebugProtocol.NextArguments | DebugProtocol.StepInArguments): boolean {
+	return (args as any)['granularity'] === 'instruction';
+}
+
+/**
+Modification time of a file in ms, 0 when the file does not exist.
+*/
+function modificationTime(path: string): number {
+	try {
+		return fs.statSync(path).mtime.getTime();
+	}
+	catch (e) {
+		return 0;
+	}
+}
+
+/**
+Test if a child process was started and did not exit yet.
+*/
+function running(process: any): boolean {
+	return !!process && !!process.pid && process.exitCode === null && process.signalCode === null;
+}
+
+/**
+Wait until a child process exits, it is killed after the timeout. With
+terminate the process is asked to stop first.
+*/
+function stopProcess(process: any, timeout: number, terminate: boolean): Promise<void> {
+	return new Promise((resolve) => {
+		if (!running(process)) {
+			resolve();
+			return;
+		}
+		const timer = setTimeout(() => {
+			try { process.kill('SIGKILL'); } catch (error) { }
+			resolve();
+		}, timeout);
+
+		process.once('exit', () => {
+			clearTimeout(timer);
+			resolve();
+		});
+		if (terminate) {
+			try { process.kill(); } catch (error) { }
+		}
+	});
+}
+
+/**
+Error result for a command that GDB did not answer, handled like an error
+result of GDB.
+*/
+function errorRecord(message: string): gdbMI.MIresult {
+	let record = new gdbMI.MIresult;
+
+	record.class = 'error';
+	record.results['msg'] = message;
+	return record;
+}
+
+/**
+Message of a rejected command, the error record of GDB or a text.
+*/
+function errorMessage(error: gdbMI.MIresult | string): string {
+	return typeof error === 'string' ? error : error.results['msg'] as string;
+}
+
+/**
+A GDB MI command waiting for its result record.
+*/
+interface PendingCommand {
+	command: string;
+	/// Sequence number of the request that sent the command
+	request: number | undefined;
+	/// Time in ms to wait for the result, 0 waits forever
+	timeout: number;
+	timer?: NodeJS.Timer;
+	/// Console output of the command, captured instead of shown
+	output?: string[];
+	resolve: (record: gdbMI.MIresult) => void;
+	reject: (record: gdbMI.MIresult) => void;
+}
+
+/**
+Variables of a compilation unit in the GLOBAL or STATIC scope. The variable
+objects are created when the compilation unit is expanded.
+*/
+interface SymbolGroup {
+	/// Name and expression of every variable with debug information
+	symbols: [string, string][];
+	/// Variable objects, created the first time the group is expanded
+	variables?: Variable[];
+	/// Symbols without debug information shown as address
+	addresses?: DebugProtocol.Variable[];
+}
+
+/**
+Compilation units shown in the GLOBAL and STATIC scope.
+*/
+type SymbolScopes = { [scope: number]: DebugProtocol.Variable[] };
+
+/**
+Temporary breakpoint of a jump or run to line, GDB deletes it when it is hit.
+*/
+interface TemporaryBreakpoint {
+	number: number;
+	/// Reason of the stop at the breakpoint shown by the UI
+	reason: string;
+}
+
+/**
+Arguments of the runToLine custom request.
+*/
+interface RunToLineArguments {
+	source: DebugProtocol.Source;
+	line: number;
+	/// Thread to run, by default the thread that stopped last
+	threadId?: number;
+}
+
 /**
 The schema for these attributes lives in the package.json of the gnu-debugger
 extension. The interface should always match this schema.
@@ -194,6 +602,8 @@ interface LaunchRequestArguments extends DebugProtocol.LaunchRequestArguments {
 
 	/// Path to GDB server.
 	server: string;
+	/// Type of GDB server: jlink, openocd, pyocd, stlink or qemu.
+	serverType: string;
 	/// Arguments for GDB server.
 	serverArgs: string[];
 	/// Path to GDB server.
@@ -204,8 +614,79 @@ interface LaunchRequestArguments extends DebugProtocol.LaunchRequestArguments {
 
 	/// List with custom variables.
 	customVariables: string[];
+	/// Path to CMSIS-SVD file with the peripheral registers.
+	svdFile: string;
+	/// RTOS awareness: none, auto, FreeRTOS or Zephyr.
+	rtos: string;
+	/// SWO trace with ITM stimulus ports.
+	swo: swo.SwoConfiguration;
+	/// SEGGER RTT channels.
+	rtt: rtt.RttConfiguration;
+	/// Semihosting console and file I/O.
+	semihosting: boolean;
+	/// Working directory of GDB client, semihosting files are relative to it.
+	cwd: string;
 	// Automatically run firmware. 
 	autoRun: boolean;
+	/// Leave the target halted (true) or running (false) at the end of the session.
+	terminateDebuggee: boolean;
+	/// Time in ms to wait for the result of a GDB MI command, 0 waits forever.
+	commandTimeout: number;
+	/// Time in ms to wait for the download of the firmware, 0 waits forever.
+	downloadTimeout: number;
+	// Debug information output. 
+	debugOutput: boolean;
+}
+
+/**
+The schema for these attributes lives in the package.json of the gnu-debugger
+extension. The interface should always match this schema.
+
+An attach session connects to a target that is already running. The firmware
+is not downloaded and the core is not reset, only the symbols are loaded.
+*/
+interface AttachRequestArguments extends DebugProtocol.AttachRequestArguments {
+	/// Path to firmware with the symbols of the running target.
+	program: string;
+
+	/// Path Arm toolchain.
+	toolchain: string;
+	/// Name of GDB client.
+	client: string;
+	/// Arguments for GDB client.
+	clientArgs: string[];
+	/// Commands for GDB MI.
+	gdbCommands: string[];
+
+	/// Path to GDB server, when empty connect to a running GDB server.
+	server: string;
+	/// Type of GDB server: jlink, openocd, pyocd, stlink or qemu.
+	serverType: string;
+	/// Arguments for GDB server.
+	serverArgs: string[];
+	/// Path to GDB server.
+	serverHost: string;
+	/// TCP/IP server address.
+	serverPort: number;
+
+	/// List with custom variables.
+	customVariables: string[];
+	/// Path to CMSIS-SVD file with the peripheral registers.
+	svdFile: string;
+	/// RTOS awareness: none, auto, FreeRTOS or Zephyr.
+	rtos: string;
+	/// SWO trace with ITM stimulus ports.
+	swo: swo.SwoConfiguration;
+	/// SEGGER RTT channels.
+	rtt: rtt.RttConfiguration;
+	/// Semihosting console and file I/O.
+	semihosting: boolean;
+	/// Working directory of GDB client, semihosting files are relative to it.
+	cwd: string;
+	/// Leave the target halted (true) or running (false) at the end of the session.
+	terminateDebuggee: boolean;
+	/// Time in ms to wait for the result of a GDB MI command, 0 waits forever.
+	commandTimeout: number;
 	// Debug information output. 
 	debugOutput: boolean;
 }
@@ -225,12 +706,8 @@ export class GnuDebugSession extends DebugSession {
 	private serverResolve: () => void;
 	/// Server promise reject
 	private serverReject: (error: string) => void;
-	/// Test for server success
-	private serverSuccess0: RegExp;
-	/// Test for server success
-	private serverSuccess1: RegExp;
-	/// Test for server failure 
-	private serverFailure: RegExp;
+	/// Profile of the GDB server
+	private profile: profiles.ServerProfile;
 
 	/// Client
 	private client: any;
@@ -247,10 +724,39 @@ export class GnuDebugSession extends DebugSession {
 
 	private token: number = 1;
 	private threadId: number = 1;
-
-	private handlers: { [index: number]: (record: gdbMI.MIresult) => any } = {};
+	/// Thread of the last stop
+	private stoppedThreadId: number = 1;
+
+	/// Commands waiting for their result in the order they were sent
+	private commands: Map<number, PendingCommand> = new Map();
+	/// Time in ms to wait for the result of a command
+	private commandTimeout = COMMAND_TIMEOUT;
+	/// Time in ms to wait for the download of the firmware
+	private downloadTimeout = DOWNLOAD_TIMEOUT;
+	/// Requests without response by sequence number
+	private requests: Map<number, DebugProtocol.Request> = new Map();
+	/// Sequence number of the request being dispatched
+	private request: number | undefined;
+	/// Requests that were cancelled or failed, their later commands are not sent
+	private cancelled: Set<number> = new Set();
 
 	private breakpointMap: Map<string, GnuBreakpoint[]> = new Map();
+	/// Function breakpoints
+	private functionBreakpoints: GnuBreakpoint[] = [];
+	/// Data breakpoints (watchpoints)
+	private dataBreakpoints: GnuBreakpoint[] = [];
+	/// Instruction breakpoints
+	private instructionBreakpoints: GnuBreakpoint[] = [];
+	/// Last insert of every kind of breakpoint, repeated after a restart
+	private breakpointInserts: Map<string, () => Promise<GnuBreakpoint[]>> = new Map();
+	/// Identifiers in the UI of every kind of breakpoint
+	private breakpointIds: Map<string, number[]> = new Map();
+	/// Identifier of the next breakpoint
+	private breakpointId = 1;
+	/// Location of every goto target by id
+	private gotoTargets: Map<number, string> = new Map();
+	/// Temporary breakpoint of the last jump or run to line
+	private temporaryBreakpoint: TemporaryBreakpoint | undefined;
 
 	private progress: vscode.Progress<any>;
 
@@ -260,17 +766,78 @@ export class GnuDebugSession extends DebugSession {
 	private customs: Variable[] = [];
 	// Variables
 	private variables: Variable[] = [];
-	// Registers
-	//private globals: Variable[] = [];
+	/// Variables of hovers and of the console, deleted when the target runs
+	private temporaries: Variable[] = [];
+	/// Name of the temporary variable by context, frame and expression
+	private temporaryNames: Map<string, string> = new Map();
+	/// Number of the next temporary variable
+	private temporaryNumber = 1;
+	/// Compilation units of the GLOBAL and STATIC scope, read on first use
+	private symbolScopes: Promise<SymbolScopes> | undefined;
+	/// Compilation unit by variables reference
+	private referenceToSymbols: { [reference: number]: SymbolGroup } = {};
 	// Map name to variable
 	private nameToVariable: { [varName: string]: Variable } = {};
 	// Map id to variable
 	private referenceToVariable: { [reference: number]: Variable } = {};
 	// Unique variable reference
-	private variablesReference: number = LOCAL_SCOPE + 1;
+	private variablesReference: number = STATIC_SCOPE + 1;
 	private customVariables: string[] = [];
 
+	// Path to CMSIS-SVD file
+	private svdFile: string = '';
+	// Peripherals described in the CMSIS-SVD file
+	private device: svd.SvdDevice | undefined;
+	// Map id to peripheral
+	private referenceToPeripheral: { [reference: number]: svd.SvdPeripheral } = {};
+	// Map id to peripheral register
+	private referenceToRegister: { [reference: number]: svd.SvdRegister } = {};
+
+	// Name of the RTOS
+	private rtosName: string = 'none';
+	// RTOS awareness, undefined until detected
+	private rtos: rtos.Rtos | undefined;
+	// RTOS tasks by thread id
+	private rtosThreads: Map<number, rtos.RtosThread> = new Map();
+	/// Name of the program status register of the GDB server
+	private xpsrName: string | undefined;
+	/// Fault of the last stop in a fault handler
+	private currentFault: fault.Fault | undefined;
+
+	// SWO configuration
+	private swoConfiguration: swo.SwoConfiguration | undefined;
+	// SWO stream
+	private swoSource: swo.SwoSource | undefined;
+	// UTF-8 decoder by stimulus port
+	private swoDecoders: { [port: number]: StringDecoder } = {};
+
+	// RTT configuration
+	private rttConfiguration: rtt.RttConfiguration | undefined;
+	// Connection with every RTT channel
+	private rttConnections: rtt.RttConnection[] = [];
+
+	// Semihosting enabled
+	private semihosting: boolean = false;
+
 	private autoRun: boolean = false;
+	/// Run the firmware automatically after a restart
+	private autoRunRestart: boolean = false;
+	/// Path to firmware
+	private program: string = '';
+	/// Modification time of the firmware that is loaded
+	private programTime: number = 0;
+	/// The session attached to a running target
+	private attached: boolean = false;
+	/// Leave the target halted at the end of the session
+	private terminateDebuggee: boolean = true;
+	/// Last lines of GDB output
+	private clientLines: string[] = [];
+	/// Last lines of GDB server output
+	private serverLines: string[] = [];
+	/// GDB and the GDB server are stopped
+	private shutdownPromise: Promise<void> | undefined;
+	/// The end of the session is reported
+	private terminated: boolean = false;
 	/**
 	Creates a new debug adapter that is used for one debug session.
 	We configure the default implementation of a debug adapter here.
@@ -298,6 +865,33 @@ export class GnuDebugSession extends DebugSession {
 		// Display information about variables on hover.
 		response.body.supportsEvaluateForHovers = true;
 		response.body.supportsSetVariable = true;
+		// Breakpoints with condition, hit count and log message.
+		response.body.supportsConditionalBreakpoints = true;
+		response.body.supportsHitConditionalBreakpoints = true;
+		response.body.supportsLogPoints = true;
+		response.body.supportsFunctionBreakpoints = true;
+		response.body.supportsDataBreakpoints = true;
+		// Disassembly view, breakpoints on instructions and instruction stepping.
+		response.body.supportsDisassembleRequest = true;
+		response.body['supportsInstructionBreakpoints'] = true;
+		response.body['supportsSteppingGranularity'] = true;
+		// Read and write target memory.
+		response.body.supportsReadMemoryRequest = true;
+		response.body['supportsWriteMemoryRequest'] = true;
+		// Cancel requests that wait for GDB.
+		response.body.supportsCancelRequest = true;
+		// Stop GDB and the GDB server gracefully.
+		response.body.supportsTerminateRequest = true;
+		// Reset the target without a new session.
+		response.body.supportsRestartRequest = true;
+		// Jump to cursor.
+		response.body.supportsGotoTargetsRequest = true;
+		// Completion of commands and expressions in the debug console.
+		response.body.supportsCompletionsRequest = true;
+		// Explanation of Cortex-M faults and halt on exceptions.
+		response.body.supportsExceptionInfoRequest = true;
+		response.body.exceptionBreakpointFilters = fault.exceptionFilters.map
+			((f) => ({ filter: f.filter, label: f.label, default: false }));
 
 		this.sendResponse(response);
 	}
@@ -319,7 +913,88 @@ export class GnuDebugSession extends DebugSession {
 		response: DebugProtocol.LaunchResponse,
 		args: LaunchRequestArguments
 		) {
+		const error = this.configure(args);
+		if (error) {
+			this.sendErrorResponse(response, 0, error);
+			return;
+		}
+		const profile = this.profile;
+		if (!args.gdbCommands) {
+			args.gdbCommands = 
+			[
+			//  `-gdb-version`,
+			`-gdb-set target-async on`,
+			`-enable-pretty-printing`,
+			`-target-select ${profile.target} ${args.serverHost}:${args.serverPort}`,
+			`-file-exec-and-symbols "${args.program}"`,
+			...profile.halt,
+			...profile.reset,
+			...profile.download,
+			];
+		}
+		if (!args.server) {
+			args.server = profile.server;
+		}
+		args.server = args.server.replace(/\\/g, '/');
+		args.serverArgs = profile.args(args.serverArgs || [], this.serverOptions(args));
+		if (args.autoRun) {
+			this.autoRun = args.autoRun;
+			this.autoRunRestart = args.autoRun;
+		}
+		if (args.downloadTimeout !== undefined) {
+			this.downloadTimeout = args.downloadTimeout;
+		}
+		this.terminateDebuggee = args.terminateDebuggee !== false;
+		this.sessionStart(response, args);
+	}
+
+	/**
+	Attach to a running target. The GDB server is only launched when a server
+	is given, otherwise the client connects to a GDB server that is already 
+	running. The target is not reset and the firmware is not downloaded.
+	*/
+	protected async attachRequest
+		(
+		response: DebugProtocol.AttachResponse,
+		args: AttachRequestArguments
+		) {
+		const error = this.configure(args);
+		if (error) {
+			this.sendErrorResponse(response, 0, error);
+			return;
+		}
+		if (!args.gdbCommands) {
+			args.gdbCommands = 
+			[
+			`-gdb-set target-async on`,
+			`-enable-pretty-printing`,
+			`-target-select ${this.profile.target} ${args.serverHost}:${args.serverPort}`,
+			`-file-symbol-file "${args.program}"`,
+			];
+		}
+		if (args.server) {
+			args.server = args.server.replace(/\\/g, '/');
+			args.serverArgs = this.profile.args(args.serverArgs || [], this.serverOptions(args));
+		}
+		// The target keeps running after an attach session by default
+		this.terminateDebuggee = args.terminateDebuggee === true;
+		this.attached = true;
+		this.sessionStart(response, args);
+	}
+
+	/**
+	Fill in the default values of the arguments shared by launch and attach.
+	Returns an error message when the arguments are not valid.
+	*/
+	private configure(args: LaunchRequestArguments | AttachRequestArguments): string | undefined {
 		let home = os.homedir();
+		let profile = profiles.findProfile(args.serverType, args.server);
+
+		if (!profile) {
+			return `Unknown serverType ${args.serverType}, use ` +
+				Object.keys(profiles.profiles).join(', ');
+		}
+		this.profile = profile;
 
 		// default values
 		if (args.toolchain) {
@@ -340,55 +1015,100 @@ export class GnuDebugSession extends DebugSession {
 			args.clientArgs = [];
 		}
 		args.program = args.program.replace(/\\/g, '/');
+		this.program = args.program;
+		this.programTime = modificationTime(args.program);
 		args.clientArgs.push('-se');
 		args.clientArgs.push(args.program);
 		args.clientArgs.push('-q');
 		args.clientArgs.push('--interpreter=mi');
-		if (!args.gdbCommands) {
-			args.gdbCommands = 
-			[
-			//  `-gdb-version`,
-			`-gdb-set target-async on`,
-			`-enable-pretty-printing`,
-			`-target-select extended-remote ${args.serverHost}:${args.serverPort}`,
-			`-file-exec-and-symbols "${args.program}"`,
-			`-interpreter-exec console "monitor halt"`,
-			`-interpreter-exec console "monitor reset"`,
-			`-target-download`,
-			];
-		}
 
-		
-		if (!args.server) {
-			args.server = 'JLinkGDBServer';
-		}
-		args.server = args.server.replace(/\\/g, '/');
 		if (!args.serverHost) {
 			args.serverHost = '';
 		}
 		if (!args.serverPort) {
-			args.serverPort = 2331;
+			args.serverPort = profile.port;
 		}
 		if (args.customVariables) {
 			this.customVariables = args.customVariables;
 		}
-		if (args.autoRun) {
-			this.autoRun = args.autoRun;
+		if (args.svdFile) {
+			this.svdFile = args.svdFile.replace(/\\/g, '/');
 		}
-		if (args.debugOutput) {
-			this.debugOutput = args.debugOutput;
+		if (args.rtos) {
+			this.rtosName = args.rtos;
+		}
+		if (args.swo) {
+			this.swoConfiguration = args.swo;
+			args.swo.source = args.swo.source || 'jlink';
+			args.swo.host = args.swo.host || args.serverHost || 'localhost';
+			args.swo.port = args.swo.port || 2332;
+			if (!args.swo.ports) {
+				args.swo.ports = [{ port: 0, label: 'ITM port 0', output: 'console' }];
+			}
+			for (let p of args.swo.ports) {
+				p.label = p.label || `ITM port ${p.port}`;
+				p.output = p.output || 'console';
+			}
+		}
+		if (args.semihosting) {
+			this.semihosting = args.semihosting;
+		}
+		if (args.cwd) {
+			args.cwd = args.cwd.replace(/\\/g, '/');
+		}
+		if (args.rtt) {
+			this.rttConfiguration = args.rtt;
+			args.rtt.host = args.rtt.host || args.serverHost || 'localhost';
+			if (!args.rtt.channels) {
+				args.rtt.channels = [{ channel: 0, port: 19021, label: 'RTT', output: 'terminal' }];
+			}
+			for (let c of args.rtt.channels) {
+				c.label = c.label || `RTT channel ${c.channel}`;
+				c.output = c.output || 'terminal';
+			}
+		}
+		if (args.commandTimeout !== undefined) {
+			this.commandTimeout = args.commandTimeout;
+		}
+		if (args.debugOutput) {
+			this.debugOutput = args.debugOutput;
+		}
+		return undefined;
+	}
+
+	/**
+	Options of the session used by the profile to build the server arguments.
+	*/
+	private serverOptions
+		(
+		args: LaunchRequestArguments | AttachRequestArguments
+		): profiles.ServerOptions {
+		return {
+			port: args.serverPort,
+			program: args.program,
+			semihosting: !!args.semihosting
+		};
+	}
+
+	/**
+	Start the GDB server (when there is one) and the GDB client and send the 
+	GDB MI commands.
+	*/
+	private sessionStart
+		(
+		response: DebugProtocol.Response,
+		args: LaunchRequestArguments | AttachRequestArguments
+		) {
+		this.message('program          = ' + args.program + '\n');
+		this.message('Toolchain        = ' + args.toolchain + '\n');
+		this.message('Client           = ' + args.client + '\n');
+		this.message('Server           = ' + args.server + '\n');
+		this.message('Server type      = ' + this.profile.name + '\n');
+		this.message('Server host      = ' + args.serverHost + '\n');
+		this.message('Server port      = ' + args.serverPort + '\n');
+		if (args.cwd) {
+			this.message('Directory        = ' + args.cwd + '\n');
 		}
-
-		this.stdout('program          = ' + args.program + '\n');
-		this.stdout('Toolchain        = ' + args.toolchain + '\n');
-		this.stdout('Client           = ' + args.client + '\n');
-		this.stdout('Server           = ' + args.server + '\n');
-		this.stdout('Server host      = ' + args.serverHost + '\n');
-		this.stdout('Server port      = ' + args.serverPort + '\n');
-
-		this.serverSuccess0 = /Connected to target/;
-		this.serverSuccess1 = /Info : Listening/;
-		this.serverFailure = /Error:|ERROR:/;
 		this.clientSuccess = /\(gdb\)/;
 		this.clientFailure = /Error:|ERROR:/;
 
@@ -398,31 +1118,52 @@ export class GnuDebugSession extends DebugSession {
 
 		vscode.window.withProgress({
 			location: vscode.ProgressLocation.Notification,
-			title: "GNU debugger "
-		}, (progress) => {
+			title: "GNU debugger ",
+			cancellable: true
+		}, (progress, cancellation) => {
 				this.progress = progress;
+				// Cancel the download of the firmware
+				cancellation.onCancellationRequested(() => {
+					this.commandsCancel
+						((c) => c.command.indexOf('-target-download') === 0, 'Download cancelled');
+				});
 
 				progress.report({ increment: 0 });
 
-				// Try to launch the server 
-				var promise = this.serverLaunch(args.server, args.serverArgs);
-
-				progress.report({ increment: 1, message: 'Launch GDB server...' });
-				promise.then
+				// Try to launch the server, unless we connect to a running server
+				let promise: Promise<any>;
+				if (args.server) {
+					promise = this.serverLaunch(args.server, args.serverArgs);
+					if (this.profile.probePort) {
+						this.serverProbe(args.serverHost || 'localhost', args.serverPort);
+					}
+					progress.report({ increment: 1, message: 'Launch GDB server...' });
+				}
+				else {
+					promise = Promise.resolve();
+				}
+				// The progress ends when the launch commands are done
+				return promise.then
 					(
 					// Server success
 					() => {
-						this.stdout('Server success\n');
+						this.message('Server success\n');
 						progress.report({ increment: 2, message: 'Launch GDB client...' });
 
-						this.clientLaunch(args.client, args.clientArgs).then
+						return this.clientLaunch(args.client, args.clientArgs, args.cwd).then
 							(
 							// Client success
 							() => {
-								this.stdout('Client success\n');
+								this.message('Client success\n');
 								this.starting = false;
-								this.launchCommands(args.gdbCommands);
 								this.sendResponse(response);
+								return this.launchCommands(args.gdbCommands).catch
+									((error) => {
+										// E.g. the download timed out, the session can not start
+										this.error(`ERROR: ${errorMessage(error)}\n`);
+										return this.sessionStop(this.terminateDebuggee)
+											.then(() => this.terminate());
+									});
 							},
 							// Client failure
 							(error) => {
@@ -437,7 +1178,6 @@ export class GnuDebugSession extends DebugSession {
 						this.sendEvent(new TerminatedEvent());
 					}
 					);
-				return promise;
 			});
 	}
 
@@ -455,6 +1195,7 @@ export class GnuDebugSession extends DebugSession {
 				this.server.stdout.on('data', this.serverOutput.bind(this));
 				this.server.stderr.on('data', this.serverOutput.bind(this));
 				this.server.on("error", this.serverError.bind(this));
+				this.server.on('exit', this.serverExit.bind(this));
 			});
 	}
 
@@ -471,29 +1212,19 @@ export class GnuDebugSession extends DebugSession {
 			this.serverBuffer = this.serverBuffer.substring(end + 1);
 
 			for (let line of lines) {
+				tail(this.serverLines, line);
 				// Display in vscode debug console
 				this.debugServer(line + '\n');
 				if (this.starting) {
-					if 
-					(
-						line.match(this.serverSuccess0) || 
-						line.match(this.serverSuccess1)
-					) {
+					if (this.serverReady(line)) {
 						this.serverResolve();
 					}
-					if ((line.match(this.serverFailure))) {
+					if ((line.match(this.profile.failure))) {
 						this.serverReject(line);
 					}
 				}
 			}
-			if 
-			(
-				this.starting && 
-				(
-					this.serverBuffer.match(this.serverSuccess0) ||
-					this.serverBuffer.match(this.serverSuccess1) 
-				)
-			) {
+			if (this.starting && this.serverReady(this.serverBuffer)) {
 				// Display in vscode debug console
 				this.debugServer(this.serverBuffer + '\n');
 				this.serverBuffer = '';
@@ -502,6 +1233,34 @@ export class GnuDebugSession extends DebugSession {
 		}
 	}
 
+	/**
+	Test if the output of the GDB server shows that it is ready.
+	*/
+	private serverReady(text: string): boolean {
+		return this.profile.ready.some((ready) => ready.test(text));
+	}
+
+	/**
+	Some GDB servers print nothing when they are ready for a connection, the
+	TCP/IP port is probed until the GDB server accepts a connection.
+	*/
+	private serverProbe(host: string, port: number) {
+		const PROBE_DELAY = 100;
+		let socket = net.connect(port, host);
+
+		socket.on('connect', () => {
+			socket.destroy();
+			this.serverResolve();
+		});
+		socket.on('error', () => {
+			socket.destroy();
+			// Stop when the GDB server failed or exited
+			if (this.starting && this.server.pid && this.server.exitCode === null) {
+				setTimeout(() => this.serverProbe(host, port), PROBE_DELAY);
+			}
+		});
+	}
+
 	/**
 	Standard error of the GDB server is bound to this function.
 	*/
@@ -510,22 +1269,43 @@ export class GnuDebugSession extends DebugSession {
 
 		// Display in vscode debug console
 		this.error(text);
-		// this.serverReject(text);
+		// The GDB server could not be started
+		if (this.starting) {
+			this.serverReject(text);
+		}
+	}
+
+	/**
+	The GDB server exited. While starting the launch fails, otherwise the
+	session ends.
+	*/
+	private serverExit(code: number | null, signal: string | null) {
+		const text = exitText('GDB server', code, signal, this.serverLines);
+
+		if (this.starting) {
+			this.serverReject(text);
+		}
+		else if (!this.shutdownPromise) {
+			this.error(`ERROR: ${text}\n`);
+			this.sessionStop(this.terminateDebuggee).then(() => this.terminate(code || 0));
+		}
 	}
 
 	protected clientLaunch
 		(
 		path: string,
-		args: string[]
+		args: string[],
+		cwd?: string
 		): Promise<any> {
 		return new Promise
 			((resolve, reject) => {
 				this.clientResolve = resolve;
 				this.clientReject = reject;
-				this.client = spawn(path, args);
+				this.client = spawn(path, args, { cwd: cwd });
 				this.client.stdout.on('data', this.clientOutput.bind(this));
 				this.client.stderr.on('data', this.clientError.bind(this));
 				this.client.on('error', this.clientError.bind(this));
+				this.client.on('exit', this.clientExit.bind(this));
 			});
 	}
 
@@ -553,24 +1333,59 @@ export class GnuDebugSession extends DebugSession {
 					}
 				}
 				else {
-					const record = gdbMI.parseMI(line);
+					let record: gdbMI.MIrecord;
 
 					if ((line.match(this.clientFailure))) {
 						this.clientError(text);
 					}
+					try {
+						record = gdbMI.parseMI(line);
+					}
+					catch (e) {
+						// Not GDB/MI output, e.g. output of GDB before MI is active
+						this.debugClient(e.message + '\n');
+						continue;
+					}
 					if (record instanceof gdbMI.MIasync) {
 						switch (record.type) {
 							// exec-async-output
 							case 'exec':
-								let threadId: number = parseInt(record['thread-id']);
+								let threadId: number = parseInt(record.results['thread-id'] as string);
 								switch (record.class) {
 									case 'stopped':
-										let reason = record['reason'];
+										let reason = record.results['reason'] as string;
+										let text: string | undefined;
 
+										// The program ended, e.g. with semihosting SYS_EXIT
+										if (/^exited/.test(reason)) {
+											this.programExit(parseInt(record.results['exit-code'] as string || '0', 8));
+											break;
+										}
+										const temporary = this.temporaryBreakpoint;
+										if (temporary) {
+											if (reason === 'breakpoint-hit' &&
+												parseInt(record.results['bkptno'] as string) === temporary.number) {
+												// GDB deleted the temporary breakpoint
+												this.temporaryBreakpoint = undefined;
+												reason = temporary.reason;
+											}
+											else {
+												// Stopped before the line was reached
+												this.temporaryDelete();
+											}
+										}
 										switch (reason) {
 											case 'end-stepping-range':
 												reason = 'step';
 												break;
+											case 'watchpoint-trigger':
+											case 'read-watchpoint-trigger':
+											case 'access-watchpoint-trigger':
+											case 'watchpoint-scope':
+												text = this.watchpointText(record);
+												this.message(text + '\n');
+												reason = 'data breakpoint';
+												break;
 											case 'breakpoint-hit':
 												reason = 'breakpoint';
 												break;
@@ -581,7 +1396,21 @@ export class GnuDebugSession extends DebugSession {
 												reason = 'user request';
 												break;
 										}
-										this.stopped(reason, threadId);
+										this.faultRead(threadId).then((f) => {
+											this.currentFault = f;
+											if (f) {
+												this.message(`${f.name()}: ${f.description()}\n`);
+												this.stopped('exception', threadId, `${f.name()}: ${f.description()}`);
+											}
+											else {
+												this.stopped(reason, threadId, text);
+											}
+										},
+										() => {
+											// The fault could not be read, show the plain stop
+											this.currentFault = undefined;
+											this.stopped(reason, threadId, text);
+										});
 										break;
 									case 'running':
 										this.running(threadId);
@@ -593,8 +1422,8 @@ export class GnuDebugSession extends DebugSession {
 							case 'status':
 								switch (record.class) {
 									case 'download':
-										let total_size = parseInt(record['total-size']);
-										let total_sent = parseInt(record['total-sent']);
+										let total_size = parseInt(record.results['total-size'] as string);
+										let total_sent = parseInt(record.results['total-sent'] as string);
 										let progress = this.progress;
 										if (progress && total_size & total_sent) {
 											let increment = (total_sent * 100) / total_size;
@@ -610,26 +1439,27 @@ export class GnuDebugSession extends DebugSession {
 						}
 					}
 					if (record instanceof gdbMI.MIstream) {
-						let type = record['type'];
-						let content = record['content'];
-						content = content.replace(/\\\"/g, '\"');
-						content = content.replace(/\\\'/g, '\'');
-						content = content.replace(/\\\\/g, '\\');
-						content = content.replace(/\\n/g, '\n');
-						content = content.replace(/\\r/g, '\r');
-						content = content.replace(/\\t/g, '\t');
-						content = content.replace(/\\v/g, '\v');
-
+						let type = record.type;
+						let content = record.content;
+						// The oldest command is the command that GDB is executing
+						let command: PendingCommand | undefined = this.commands.values().next().value;
+
+						// The GDB server answers a monitor command on the target stream as well
+						if (type === 'target' && command && MONITOR_COMMAND.test(command.command)) {
+							type = 'console';
+						}
+						if (type === 'console' && command && command.output) {
+							command.output.push(content);
+							continue;
+						}
+						if (type === 'target') {
+							type = SEMIHOSTING_CATEGORY;
+						}
 						this.sendEvent(new OutputEvent(content, type));
 					}
 					if (record instanceof gdbMI.MIresult) {
-						if (record.token != NaN) {
-							const handler = this.handlers[record.token];
-
-							if (handler) {
-								handler(record);
-								delete this.handlers[record.token];
-							}
+						if (record.token !== undefined) {
+							this.commandResult(record.token, record);
 						}
 					}
 				}
@@ -649,91 +1479,371 @@ export class GnuDebugSession extends DebugSession {
 	private clientError(data) {
 		var text = data.toString('utf8');
 
+		for (let line of text.split(/\r?\n/).filter((line) => line)) {
+			tail(this.clientLines, line);
+		}
 		// Display in vscode debug console
 		this.error(text);
 		this.clientReject(text);
 	}
 
+	/**
+	GDB exited. The pending commands are rejected, an unexpected exit ends the
+	session.
+	*/
+	private clientExit(code: number | null, signal: string | null) {
+		const text = exitText('GDB', code, signal, this.clientLines);
+
+		this.commandsCancel(() => true, 'GDB exited');
+		if (this.starting) {
+			this.clientReject(text);
+		}
+		else if (!this.shutdownPromise) {
+			this.error(`ERROR: ${text}\n`);
+			this.sessionStop(this.terminateDebuggee).then(() => this.terminate(code || 0));
+		}
+	}
+
 	protected setBreakPointsRequest
 		(
 		response: DebugProtocol.SetBreakpointsResponse,
 		args: DebugProtocol.SetBreakpointsArguments
 		): void {
 		this.debugServer('setBreakPointsRequest\n');
-		let filename = args.source.path;
-		if (filename) {
-			filename = filename.replace(/\\/g, '/');
-			// Get the current breakpoint list
-			let breakpointMap = (this.breakpointMap.get(filename) || []);
-			let numbers = breakpointMap.map((breakpoint) => breakpoint.number);
-			let promises: Promise<any>[] = [];
+		let path = args.source.path;
 
-			if (numbers.length) {
-				for (let bp of breakpointMap) {
-					bp.verified = false;
-				}
-				// Clear all previous breakpoints.
-				let command = '-break-delete ' + numbers.join(' ');
+		if (path) {
+			const filename = path.replace(/\\/g, '/');
+			const breakpoints = args.breakpoints || [];
 
-				let promise = this.sendCommand(command);
-				promises.push(promise);
+			this.breakpointsSet
+				(response, 'source:' + filename, () => this.sourceBreakpointsInsert(filename, breakpoints));
+		}
+	}
 
-				promise.then
-					((record: gdbMI.MIresult) => {
-						this.debugServer('breakpoints delete done ');
-					});
+	/**
+	Replace the breakpoints in a source file. A breakpoint that GDB rejects is
+	returned unverified with the reason.
+	*/
+	private sourceBreakpointsInsert
+		(
+		filename: string,
+		breakpoints: DebugProtocol.SourceBreakpoint[]
+		): Promise<GnuBreakpoint[]> {
+		let numbers = (this.breakpointMap.get(filename) || []).map((breakpoint) => breakpoint.number);
+		let promises: Promise<any>[] = [];
+		let verifiedBreakpoints: GnuBreakpoint[] = [];
+
+		if (numbers.length) {
+			// Clear all previous breakpoints.
+			promises.push(this.sendCommand('-break-delete ' + numbers.join(' ')));
+		}
+		breakpoints.forEach((b, index) => {
+			let options = breakpointOptions(b.condition, b.hitCondition);
+
+			if (options === undefined) {
+				let breakpoint = new ErrorBreakpoint(false, b.line, b.column);
+				breakpoint.message = `Unsupported hit condition: ${b.hitCondition}`;
+				verifiedBreakpoints[index] = breakpoint;
+				return;
+			}
+			promises.push(this.sendCommand(sourceBreakpointInsert(options, filename, b)).then
+				((record: gdbMI.MIresult) => {
+					let breakpoint: any = record.results['bkpt'];
+
+					breakpoint.verified = true;
+					verifiedBreakpoints[index] = breakpoint;
+				},
+				(record: gdbMI.MIresult) => {
+					let breakpoint = new ErrorBreakpoint(false, b.line, b.column);
+					breakpoint.message = record.results['msg'] as string;
+					verifiedBreakpoints[index] = breakpoint;
+				}));
+		});
+		return Promise.all(promises).then
+			(() => {
+				this.debugServer('breakpoints insert done ');
+				this.breakpointMap.set(filename, verifiedBreakpoints.filter((b) => b.verified));
+				return verifiedBreakpoints;
+			},
+			() => breakpoints.map((b) => new ErrorBreakpoint(false, b.line, b.column)));
+	}
+
+	/**
+	Insert one kind of breakpoints and answer the request with them. The insert
+	is kept to set the breakpoints again after a restart, the identifiers let
+	the UI update the breakpoints then.
+	*/
+	private breakpointsSet
+		(
+		response: DebugProtocol.Response,
+		kind: string,
+		insert: () => Promise<GnuBreakpoint[]>
+		): void {
+		this.breakpointInserts.set(kind, insert);
+		insert().then((breakpoints) => {
+			const ids = breakpoints.map(() => this.breakpointId++);
+
+			breakpoints.forEach((b, index) => b.id = ids[index]);
+			this.breakpointIds.set(kind, ids);
+			response.body =
+				{
+					breakpoints: breakpoints
+				};
+			this.sendResponse(response);
+		});
+	}
+
+	/**
+	Set breakpoints on function names. The previous function breakpoints are 
+	replaced by the new list.
+	*/
+	protected setFunctionBreakPointsRequest
+		(
+		response: DebugProtocol.SetFunctionBreakpointsResponse,
+		args: DebugProtocol.SetFunctionBreakpointsArguments
+		): void {
+		this.debugServer('setFunctionBreakPointsRequest\n');
+		this.breakpointsSet(response, 'function', () => this.functionBreakpointsInsert(args.breakpoints));
+	}
 
+	/**
+	Replace the function breakpoints.
+	*/
+	private functionBreakpointsInsert(breakpoints: DebugProtocol.FunctionBreakpoint[]): Promise<GnuBreakpoint[]> {
+		let numbers = this.functionBreakpoints.map((breakpoint) => breakpoint.number);
+		let promises: Promise<any>[] = [];
+		let verifiedBreakpoints: GnuBreakpoint[] = [];
+
+		if (numbers.length) {
+			// Clear all previous function breakpoints.
+			promises.push(this.sendCommand('-break-delete ' + numbers.join(' ')));
+		}
+		breakpoints.forEach((b, index) => {
+			let options = breakpointOptions(b.condition, b.hitCondition);
+
+			if (options === undefined) {
+				let breakpoint = new ErrorBreakpoint(false);
+				breakpoint.message = `Unsupported hit condition: ${b.hitCondition}`;
+				verifiedBreakpoints[index] = breakpoint;
+				return;
 			}
+			let command = `-break-insert ${options}"${escape(b.name)}"`;
+
+			promises.push(this.sendCommand(command).then
+				((record: gdbMI.MIresult) => {
+					verifiedBreakpoints[index] = new ResolvedBreakpoint(record.results['bkpt']);
+				},
+				(record: gdbMI.MIresult) => {
+					let breakpoint = new ErrorBreakpoint(false);
+					breakpoint.message = record.results['msg'] as string;
+					verifiedBreakpoints[index] = breakpoint;
+				}));
+		});
+		return Promise.all(promises).then
+			(() => {
+				this.functionBreakpoints = verifiedBreakpoints.filter((b) => b.verified);
+				return verifiedBreakpoints;
+			},
+			() => {
+				this.functionBreakpoints = [];
+				return breakpoints.map(() => new ErrorBreakpoint(false));
+			});
+	}
 
-			let breakpoints = args.breakpoints;
-			let verifiedBreakpoints: GnuBreakpoint[] = [];
+	/**
+	Check if a data breakpoint can be set on a variable or expression. The 
+	data id is the GDB expression of the variable.
+	*/
+	protected dataBreakpointInfoRequest
+		(
+		response: DebugProtocol.DataBreakpointInfoResponse,
+		args: DebugProtocol.DataBreakpointInfoArguments
+		): void {
+		this.debugServer('dataBreakpointInfoRequest\n');
+		const accessTypes: DebugProtocol.DataBreakpointAccessType[] = 
+			['write', 'read', 'readWrite'];
+		let promise: Promise<string>;
+
+		if (args.variablesReference === undefined) {
+			// The name is an expression, e.g. an address
+			promise = Promise.resolve(args.name);
+		}
+		else if (args.variablesReference === REGISTER_SCOPE) {
+			promise = Promise.reject('Registers can not be watched');
+		}
+		else {
+			let variable = this.findVariable(args.variablesReference, args.name);
 
-			if (breakpoints) {
-				breakpoints.forEach((b) => {
-					let command = `-break-insert "${filename}:${b.line}"`;
+			if (variable) {
+				promise = this.sendCommand(`-var-info-path-expression "${escape(variable.varName)}"`).then
+					((record: gdbMI.MIresult) => record.results['path_expr'] as string);
+			}
+			else {
+				promise = Promise.reject(`Unknown variable ${args.name}`);
+			}
+		}
+		promise.then
+			((expression: string) => {
+				response.body =
+					{
+						dataId: expression,
+						description: expression,
+						accessTypes: accessTypes,
+						canPersist: args.variablesReference === undefined
+					};
+				this.sendResponse(response);
+			},
+			(error) => {
+				response.body =
+					{
+						dataId: null,
+						description: errorMessage(error)
+					};
+				this.sendResponse(response);
+			});
+	}
 
-					let promise = this.sendCommand(command);
-					promises.push(promise);
+	/**
+	Set hardware watchpoints. The previous data breakpoints are replaced by the
+	new list.
+	*/
+	protected setDataBreakpointsRequest
+		(
+		response: DebugProtocol.SetDataBreakpointsResponse,
+		args: DebugProtocol.SetDataBreakpointsArguments
+		): void {
+		this.debugServer('setDataBreakpointsRequest\n');
+		this.breakpointsSet(response, 'data', () => this.dataBreakpointsInsert(args.breakpoints));
+	}
 
-					promise.then
-						((record: gdbMI.MIresult) => {
-							let breakpoint = record['bkpt'];
+	/**
+	Replace the data breakpoints.
+	*/
+	private dataBreakpointsInsert(breakpoints: DebugProtocol.DataBreakpoint[]): Promise<GnuBreakpoint[]> {
+		let numbers = this.dataBreakpoints.map((breakpoint) => breakpoint.number);
+		let promises: Promise<any>[] = [];
+		let verifiedBreakpoints: GnuBreakpoint[] = [];
+
+		if (numbers.length) {
+			// Clear all previous data breakpoints.
+			promises.push(this.sendCommand('-break-delete ' + numbers.join(' ')));
+		}
+		breakpoints.forEach((b, index) => {
+			let count = b.hitCondition ? ignoreCount(b.hitCondition) : 0;
+
+			if (count < 0) {
+				let breakpoint = new ErrorBreakpoint(false);
+				breakpoint.message = `Unsupported hit condition: ${b.hitCondition}`;
+				verifiedBreakpoints[index] = breakpoint;
+				return;
+			}
+			let option = '';
+
+			switch (b.accessType) {
+				case 'read':
+					option = '-r ';
+					break;
+				case 'readWrite':
+					option = '-a ';
+					break;
+			}
+			let promise = this.sendCommand(`-break-watch ${option}"${escape(b.dataId)}"`).then
+				((record: gdbMI.MIresult) => {
+					let breakpoint = 
+						new ResolvedBreakpoint(record.results['wpt'] || record.results['hw-rwpt'] || record.results['hw-awpt']);
+					let commands: Promise<any>[] = [];
 
-							breakpoint.verified = true;
+					if (b.condition) {
+						commands.push(this.sendCommand
+							(`-break-condition ${breakpoint.number} ${b.condition}`));
+					}
+					if (count > 0) {
+						commands.push(this.sendCommand
+							(`-break-after ${breakpoint.number} ${count}`));
+					}
+					verifiedBreakpoints[index] = breakpoint;
+					return Promise.all(commands);
+				})
+				.catch
+				((record: gdbMI.MIresult) => {
+					let breakpoint = verifiedBreakpoints[index] as ErrorBreakpoint;
 
-							verifiedBreakpoints.push(breakpoint);
-						});
+					if (!breakpoint) {
+						breakpoint = new ErrorBreakpoint(false);
+						verifiedBreakpoints[index] = breakpoint;
+					}
+					breakpoint.verified = false;
+					breakpoint.message = record.results['msg'] as string;
 				});
+			promises.push(promise);
+		});
+		return Promise.all(promises).then
+			(() => {
+				// Watchpoints with an invalid condition stay in GDB
+				this.dataBreakpoints = verifiedBreakpoints.filter((b) => b.number > 0);
+				return verifiedBreakpoints;
+			},
+			() => {
+				this.dataBreakpoints = [];
+				return breakpoints.map(() => new ErrorBreakpoint(false));
+			});
+	}
 
-				Promise.all(promises).then
-					(() => {
-						this.debugServer('breakpoints insert done ');
-						if (filename) {
-							this.breakpointMap.set(filename, verifiedBreakpoints);
-						}
-						response.body =
-							{
-								breakpoints: verifiedBreakpoints
-							};
-						this.sendResponse(response);
-					},
-					() => {
-						verifiedBreakpoints = [];
-						if (breakpoints) {
-							for (let b of breakpoints) {
-								let breakpoint = new ErrorBreakpoint(false, b.line, b.column);
+	/**
+	Describe which watchpoint triggered and the old and new value.
+	*/
+	private watchpointText(record: gdbMI.MIasync): string {
+		let watchpoint: any = record.results['wpt'] || record.results['hw-rwpt'] || record.results['hw-awpt'] || {};
+		let value: any = record.results['value'] || {};
+		let text = `Watchpoint ${watchpoint.number || record.results['wpnum']}: ${watchpoint.exp || ''}`;
 
-								verifiedBreakpoints.push(breakpoint);
-							}
-						}
-						response.body =
-							{
-								breakpoints: verifiedBreakpoints
-							};
-						this.sendResponse(response);
-					});
-			}
+		if (record.results['reason'] === 'watchpoint-scope') {
+			return text + ' deleted, the program has left the block of the expression';
+		}
+		if (value.old !== undefined) {
+			text += `\nOld value = ${value.old}`;
+		}
+		if (value.new !== undefined) {
+			text += `\nNew value = ${value.new}`;
+		}
+		if (value.value !== undefined) {
+			text += `\nValue = ${value.value}`;
+		}
+		return text;
+	}
+
+	/**
+	Find the variable with the given name shown in a scope or as child of a 
+	structured variable.
+	*/
+	private findVariable(variablesReference: number, name: string): Variable | undefined {
+		const find = (variables: Variable[]) => 
+			variables.filter((variable) => variable.name === name)[0];
+
+		switch (variablesReference) {
+			case CUSTOM_SCOPE:
+				return find(this.customs);
+			case LOCAL_SCOPE:
+				return find(this.variables);
 		}
+		let group = this.referenceToSymbols[variablesReference];
+		if (group) {
+			return find(group.variables || []);
+		}
+		let parent = this.referenceToVariable[variablesReference];
+		if (parent) {
+			// Children have the GDB variable name of the parent as prefix, the 
+			// shortest name is the direct child.
+			const prefix = parent.varName + '.';
+			const children = Object.keys(this.nameToVariable)
+				.map((key) => this.nameToVariable[key])
+				.filter((variable) => variable.varName.indexOf(prefix) === 0)
+				.sort((a, b) => a.varName.length - b.varName.length);
+
+			return find(children);
+		}
+		return undefined;
 	}
 
 	protected threadsRequest
@@ -751,112 +1861,550 @@ export class GnuDebugSession extends DebugSession {
 				};
 			this.sendResponse(response);
 		}
-		else {
-			this.sendCommand('-thread-list-ids').then
-				((record: gdbMI.MIresult) => {
-					const threads: Thread[] = [];
-					try {
-						const threadIds = record['thread-ids'];
-						this.threadId = record['current-thread-id'];
-
-						for (let name in threadIds) {
-							let value: number = parseInt(threadIds[name]);
-							threads.push(new Thread(value, name));
-						}
-					}
-					catch (e) { }
+		else if (this.rtosName !== 'none') {
+			this.rtosThreadList().then
+				((threads: Thread[]) => {
 					response.body =
 						{
 							threads: threads
 						};
 					this.sendResponse(response);
+				},
+				() => {
+					// E.g. the lists are read before the scheduler starts, try again at the next stop
+					this.rtosThreads.clear();
+					this.gdbThreads(response);
 				});
 		}
+		else {
+			this.gdbThreads(response);
+		}
 	}
 
-	protected stackTraceRequest
-		(
-		response: DebugProtocol.StackTraceResponse,
-		args: DebugProtocol.StackTraceArguments
-		): void {
-		this.debugServer('stackTraceRequest\n');
-		this.sendCommand
-			(`-stack-list-frames --thread ${args.threadId} ${args.startFrame} ${args.levels}`).then
+	/**
+	The threads of GDB, without RTOS awareness.
+	*/
+	private gdbThreads(response: DebugProtocol.ThreadsResponse) {
+		this.sendCommand('-thread-list-ids').then
 			((record: gdbMI.MIresult) => {
-				let stackFrames: StackFrame[] = [];
-
+				const threads: Thread[] = [];
 				try {
-					let stack = record['stack'];
-					let length = stack.length;
-
-					for (let i = 0; i < length; i++) {
-						let frame = stack[i].value;
-						let level: number = parseInt(frame.level);
-						let addr: string = frame.addr.toUpperCase().replace('X', 'x');
-						let func: string = frame.func;
-						let file: string = frame.file;
-						let fullname: string = frame.fullname;
-						let line: number = parseInt(frame.line);
-						let source = new Source(file, fullname);
-						let stackFrame;
-
-						// Prevent undefined message when there is no source file.
-						// vscode will now show Unknown Source in the UI
-						if (file == undefined)
-						{
-							stackFrame = 
-							new StackFrame(level, func + ' @ ' + addr);
-						}
-						else
-						{
-							stackFrame = 
-							new StackFrame(level, func + ' @ ' + addr, source, line, 0);
-						}
-						stackFrames.push(stackFrame);
+					// A tuple with a repeated name is a list of results
+					const threadIds = gdbMI.resultList(record.results['thread-ids']);
+					this.threadId = parseInt(record.results['current-thread-id'] as string);
+
+					for (let id of threadIds) {
+						let value: number = parseInt(id.value as string);
+						threads.push(new Thread(value, "thread " + value));
 					}
 				}
 				catch (e) { }
 				response.body =
 					{
-						stackFrames: stackFrames,
-						totalFrames: stackFrames.length,
+						threads: threads
 					};
 				this.sendResponse(response);
+			},
+			(error) => {
+				this.sendErrorResponse(response, 0, errorMessage(error));
 			});
 	}
 
-	protected scopesRequest
+	protected stackTraceRequest
 		(
-		response: DebugProtocol.ScopesResponse,
-		args: DebugProtocol.ScopesArguments
+		response: DebugProtocol.StackTraceResponse,
+		args: DebugProtocol.StackTraceArguments
 		): void {
-		this.debugServer('scopesRequest\n');
-		let scopes: Scope[] = [];
+		this.debugServer('stackTraceRequest\n');
+		let thread = this.rtosThreads.get(args.threadId);
 
-		scopes.push(new Scope("REGISTER", REGISTER_SCOPE, true));
-		if (this.customVariables && this.customVariables.length > 0) {
-			scopes.push(new Scope("CUSTOM", CUSTOM_SCOPE, true));
-		}
-		scopes.push(new Scope("LOCAL", LOCAL_SCOPE, true));
-		response.body =
-			{
-				scopes: scopes,
-			};
-		this.sendResponse(response);
-		if (this.stopped && this.autoRun) {
-			this.autoRun = false;
-			this.sendCommand('-exec-continue');
+		if (thread && !thread.current) {
+			this.rtosStackTrace(response, args, thread);
+			return;
 		}
-	}
+		this.sendCommand
+			(`-stack-list-frames --thread ${args.threadId} ${args.startFrame} ${args.levels}`).then
+			((record: gdbMI.MIresult) => {
+				let stackFrames = this.stackFrames(record);
+				let promise = Promise.resolve(stackFrames);
 
-	protected variablesRequest
-		(
-		response: DebugProtocol.VariablesResponse,
-		args: DebugProtocol.VariablesArguments
-		): void {
-		this.debugServer('variablesRequest\n');
+				if (this.currentFault && !args.startFrame) {
+					promise = this.faultFrames(stackFrames, this.currentFault);
+				}
+				return promise.then((stackFrames) => {
+					response.body =
+						{
+							stackFrames: stackFrames,
+							totalFrames: stackFrames.length,
+						};
+					this.sendResponse(response);
+				});
+			})
+			.catch((error) => {
+				this.sendErrorResponse(response, 0, errorMessage(error));
+			});
+	}
 
-		const variablesReference: number = args.variablesReference;
+	/**
+	Name of the program status register, OpenOCD and pyOCD name it xPSR.
+	*/
+	private xpsrRegister(threadId: number): Promise<string> {
+		const exists = (name: string) => this.sendCommand
+			(`-data-evaluate-expression --thread ${threadId} "(unsigned int)$${name}"`, true)
+			.then(() => name);
+
+		if (this.xpsrName) {
+			return Promise.resolve(this.xpsrName);
+		}
+		return exists('xpsr')
+			.catch(() => exists('xPSR'))
+			.then((name) => this.xpsrName = name);
+	}
+
+	/**
+	Check if the core stopped in a fault handler. Resolves to the fault or to
+	undefined when the core is not handling a fault.
+	*/
+	private async faultRead(threadId: number): Promise<fault.Fault | undefined> {
+		const value = (frame: number, register: string) => this.sendCommand
+			(`-data-evaluate-expression --thread ${threadId} --frame ${frame} "(unsigned int)$${register}"`, true)
+			.then((record: gdbMI.MIresult) => parseInt(record.results['value'] as string));
+
+		try {
+			const xpsr = await value(0, await this.xpsrRegister(threadId));
+			const exception = fault.exceptionNumber(xpsr);
+			let excReturn = 0;
+			let sp = 0;
+
+			if (!fault.isFault(exception)) {
+				return undefined;
+			}
+			try {
+				// GDB shows the exception return as frame 1 when it can unwind the handler
+				excReturn = await value(1, 'pc');
+				// The handler runs on the MSP, the frame of a task is on the PSP
+				sp = fault.usesPsp(excReturn) ? await value(0, 'psp') : await value(1, 'sp');
+			}
+			catch (e) {
+				excReturn = 0;
+			}
+			if (!fault.isExcReturn(excReturn)) {
+				// At the entry of the handler the registers still hold the exception return
+				excReturn = await value(0, 'lr');
+				sp = await value(0, fault.usesPsp(excReturn) ? 'psp' : 'msp');
+			}
+			return await fault.readFault(this.rtosTarget(), exception, excReturn, sp);
+		}
+		catch (e) {
+			return undefined;
+		}
+	}
+
+	/**
+	Unwind through the exception return to the code that faulted. The frames of
+	the handler are followed by a frame with the program counter that the core
+	pushed on the stack, the exception return frame of GDB is replaced.
+	*/
+	private faultFrames
+		(
+		stackFrames: DebugProtocol.StackFrame[],
+		f: fault.Fault
+		): Promise<DebugProtocol.StackFrame[]> {
+		const pc = f.frame['pc'];
+		const isReturn = (frame: DebugProtocol.StackFrame) =>
+			fault.isExcReturn(parseInt(frame.instructionPointerReference || '0')) ||
+			frame.name.indexOf('<signal handler called>') === 0;
+		let index = stackFrames.findIndex(isReturn);
+		let handler = index < 0 ? stackFrames : stackFrames.slice(0, index);
+		let callers = index < 0 ? [] : stackFrames.slice(index + 1);
+
+		// GDB already shows the code that faulted after the exception return
+		if (callers.length && parseInt(callers[0].instructionPointerReference || '0') === pc) {
+			callers = callers.slice(1);
+		}
+		return this.sendCommand
+			(`-data-disassemble -s ${bits.hexAddress(pc)} -e ${bits.hexAddress(pc + 2)} -- 1`, true)
+			.then((record: gdbMI.MIresult) => this.instructions(record.results['asm_insns'] as gdbMI.MIlist), () => [])
+			.then((instructions: DebugProtocol.DisassembledInstruction[]) => {
+				const instruction = instructions[0];
+				const symbol = instruction && instruction.symbol ?
+					instruction.symbol.replace(/\+\d+$/, '') : '??';
+				let name = `${symbol} @ ${bits.hexAddress(pc)} [${f.name()}]`;
+				let frame: DebugProtocol.StackFrame = new StackFrame(handler.length, name);
+
+				if (instruction && instruction.location && instruction.line) {
+					frame = new StackFrame(handler.length, name, instruction.location as Source, instruction.line, 0);
+				}
+				frame.instructionPointerReference = bits.hexAddress(pc);
+				return handler.concat([frame], callers);
+			});
+	}
+
+	/**
+	Convert the result of -stack-list-frames to stack frames.
+	*/
+	private stackFrames(record: gdbMI.MIresult): DebugProtocol.StackFrame[] {
+		let stackFrames: DebugProtocol.StackFrame[] = [];
+
+		try {
+			let stack = gdbMI.resultList(record.results['stack']);
+			let length = stack.length;
+
+			for (let i = 0; i < length; i++) {
+				let frame: any = stack[i].value;
+				let level: number = parseInt(frame.level);
+				let addr: string = frame.addr.toUpperCase().replace('X', 'x');
+				let func: string = frame.func;
+				let file: string = frame.file;
+				let fullname: string = frame.fullname;
+				let line: number = parseInt(frame.line);
+				let source = new Source(file, fullname);
+				let stackFrame: DebugProtocol.StackFrame;
+
+				// Prevent undefined message when there is no source file.
+				// vscode will now show Unknown Source in the UI
+				if (file == undefined)
+				{
+					stackFrame = 
+					new StackFrame(level, func + ' @ ' + addr);
+				}
+				else
+				{
+					stackFrame = 
+					new StackFrame(level, func + ' @ ' + addr, source, line, 0);
+				}
+				stackFrame.instructionPointerReference = frame.addr;
+				stackFrames.push(stackFrame);
+			}
+		}
+		catch (e) { }
+		return stackFrames;
+	}
+
+	/**
+	The tasks of the RTOS as threads. The RTOS is detected the first time the 
+	threads are requested. The running task keeps the thread id of GDB, when no
+	task runs (the scheduler did not start yet) the GDB thread is listed too.
+	*/
+	private rtosThreadList(): Promise<Thread[]> {
+		let promise: Promise<rtos.Rtos | undefined> = this.rtos ? 
+			Promise.resolve(this.rtos) : rtos.detectRtos(this.rtosName, this.rtosTarget());
+
+		return promise.then((kernel) => {
+			if (!kernel) {
+				const name = this.rtosName;
+
+				// Do not look for the RTOS again
+				this.rtosName = 'none';
+				throw new Error(`No ${name} RTOS found`);
+			}
+			if (!this.rtos) {
+				this.message(`RTOS             = ${kernel.name}\n`);
+				this.rtos = kernel;
+			}
+			return kernel.threads();
+		})
+		.then((tasks) => {
+			this.rtosThreads.clear();
+			let threads = tasks.map((task) => {
+				if (task.current) {
+					task.id = this.threadId;
+				}
+				this.rtosThreads.set(task.id, task);
+				return new Thread(task.id, task.description());
+			});
+			// Before the scheduler starts no task runs, the core runs the GDB thread
+			if (!tasks.some((task) => task.current)) {
+				threads.unshift(new Thread(this.threadId, 'thread ' + this.threadId));
+			}
+			return threads;
+		});
+	}
+
+	/**
+	Unwind the stack of a task that is not running. GDB can only unwind the 
+	stack from the core registers, so the registers are temporarily replaced by
+	the context saved by the RTOS and restored after the frames are listed.
+	*/
+	private rtosStackTrace
+		(
+		response: DebugProtocol.StackTraceResponse,
+		args: DebugProtocol.StackTraceArguments,
+		thread: rtos.RtosThread
+		) {
+		const names = 
+			[
+			'r0', 'r1', 'r2', 'r3', 'r4', 'r5', 'r6', 'r7', 'r8', 'r9', 'r10', 'r11', 
+			'r12', 'sp', 'lr', 'pc', 'xpsr'
+			];
+		let saved: rtos.Registers = {};
+		let xpsr = 'xpsr';
+		const register = (name: string) => name === 'xpsr' ? xpsr : name;
+
+		const write = (registers: rtos.Registers) => Promise.all
+			(names.filter((name) => registers[name] !== undefined).map((name) =>
+				this.sendCommand(`-data-evaluate-expression "$${register(name)}=${registers[name]}"`)));
+
+		const read = () => Promise.all
+			(names.map((name) => 
+				this.sendCommand(`-data-evaluate-expression "(unsigned int)$${register(name)}"`).then
+					((record: gdbMI.MIresult) => { saved[name] = parseInt(record.results['value'] as string); })));
+
+		const respond = (stackFrames: DebugProtocol.StackFrame[]) => {
+			response.body =
+				{
+					stackFrames: stackFrames,
+					totalFrames: stackFrames.length,
+				};
+			this.sendResponse(response);
+		};
+
+		const kernel = this.rtos;
+		if (!kernel) {
+			respond([]);
+			return;
+		}
+		this.xpsrRegister(this.threadId)
+			.then((name) => { xpsr = name; })
+			.then(() => read())
+			.then(() => kernel.registers(thread))
+			.then((registers) => write(registers))
+			.then(() => this.sendCommand
+				(`-stack-list-frames --thread ${this.threadId} ${args.startFrame} ${args.levels}`))
+			.then
+			((record: gdbMI.MIresult) => {
+				let stackFrames = this.stackFrames(record);
+				write(saved).then(() => respond(stackFrames), () => respond(stackFrames));
+			},
+			() => {
+				write(saved).then(() => respond([]), () => respond([]));
+			});
+	}
+
+	/**
+	Access to the target for the RTOS awareness.
+	*/
+	private rtosTarget(): rtos.Target {
+		return {
+			evaluate: (expression: string) =>
+				this.sendCommand(`-data-evaluate-expression "${escape(expression)}"`, true).then
+					((record: gdbMI.MIresult) => record.results['value'] as string),
+			readWords: (address: number, count: number) =>
+				this.sendCommand(`-data-read-memory-bytes ${bits.hexAddress(address)} ${count * 4}`).then
+					((record: gdbMI.MIresult) => {
+						const contents: string = (record.results['memory'] as any)[0].contents;
+						let words: number[] = [];
+
+						for (let i = 0; i < count; i++) {
+							words.push(littleEndian(contents.substr(i * 8, 8)));
+						}
+						return words;
+					})
+		};
+	}
+
+	/**
+	Disassemble the code around a memory reference with the source lines mixed 
+	in. Exactly the requested number of instructions is returned, instructions
+	that can not be read are shown as invalid.
+	*/
+	protected disassembleRequest
+		(
+		response: DebugProtocol.DisassembleResponse,
+		args: DebugProtocol.DisassembleArguments
+		): void {
+		this.debugServer('disassembleRequest\n');
+		// Thumb instructions are 2 or 4 bytes
+		const INSTRUCTION_SIZE = 4;
+		const base = parseInt(args.memoryReference) + (args.offset || 0);
+		const instructionOffset = args.instructionOffset || 0;
+		const count = args.instructionCount;
+		let start = base + Math.min(instructionOffset, 0) * INSTRUCTION_SIZE;
+		let end = base + (Math.max(instructionOffset, 0) + count) * INSTRUCTION_SIZE;
+
+		start = Math.max(start, 0);
+		start -= start % 2;
+		this.sendCommand
+			(`-data-disassemble -s ${bits.hexAddress(start)} -e ${bits.hexAddress(end)} -- 5`)
+			.then((record: gdbMI.MIresult) => this.instructions(record.results['asm_insns'] as gdbMI.MIlist), () => [])
+			.then((instructions: DebugProtocol.DisassembledInstruction[]) => {
+				// Index of the first instruction at or after the memory reference
+				let index = instructions.length;
+
+				for (let i = 0; i < instructions.length; i++) {
+					if (parseInt(instructions[i].address) >= base) {
+						index = i;
+						break;
+					}
+				}
+				let result: DebugProtocol.DisassembledInstruction[] = [];
+				let first = index + instructionOffset;
+
+				for (let i = first; i < first + count; i++) {
+					if (i >= 0 && i < instructions.length) {
+						result.push(instructions[i]);
+					}
+					else {
+						let address = base + (i - index) * INSTRUCTION_SIZE;
+						result.push
+							({
+								address: bits.hexAddress(Math.max(address, 0)),
+								instruction: '??'
+							});
+					}
+				}
+				response.body =
+					{
+						instructions: result
+					};
+				this.sendResponse(response);
+			});
+	}
+
+	/**
+	Convert the output of -data-disassemble to a list of instructions sorted by
+	address. Source lines are only present in mixed mode.
+	*/
+	private instructions(list: any[]): DebugProtocol.DisassembledInstruction[] {
+		let instructions: DebugProtocol.DisassembledInstruction[] = [];
+
+		const add = (insn: any, line?: any) => {
+			let instruction: DebugProtocol.DisassembledInstruction =
+				{
+					address: bits.hexAddress(parseInt(insn.address)),
+					instructionBytes: insn.opcodes,
+					instruction: insn.inst,
+				};
+
+			if (insn['func-name']) {
+				instruction.symbol = `${insn['func-name']}+${insn.offset}`;
+			}
+			if (line && line.file) {
+				instruction.location = new Source(line.file, line.fullname);
+				instruction.line = parseInt(line.line);
+			}
+			instructions.push(instruction);
+		};
+
+		for (let item of list || []) {
+			if (item instanceof gdbMI.MIvariable) {
+				// src_and_asm_line={line, file, fullname, line_asm_insn=[...]}
+				let line: any = item.value;
+
+				for (let insn of line.line_asm_insn || []) {
+					add(insn, line);
+				}
+			}
+			else {
+				add(item);
+			}
+		}
+		return instructions.sort
+			((a, b) => parseInt(a.address) - parseInt(b.address));
+	}
+
+	/**
+	Read target memory. Reading stops at the first byte that can not be read.
+	*/
+	protected readMemoryRequest
+		(
+		response: DebugProtocol.ReadMemoryResponse,
+		args: DebugProtocol.ReadMemoryArguments
+		): void {
+		this.debugServer('readMemoryRequest\n');
+		const address = parseInt(args.memoryReference) + (args.offset || 0);
+
+		this.sendCommand(`-data-read-memory-bytes ${bits.hexAddress(address)} ${args.count}`).then
+			((record: gdbMI.MIresult) => {
+				let blocks = (record.results['memory'] as any[])
+					.sort((a, b) => parseInt(a.begin) - parseInt(b.begin));
+				let begin = blocks.length ? parseInt(blocks[0].begin) : address + args.count;
+				let data = Buffer.alloc(0);
+
+				if (begin === address) {
+					data = Buffer.from(blocks[0].contents, 'hex');
+				}
+				response.body =
+					{
+						address: bits.hexAddress(address),
+						unreadableBytes: args.count - data.length,
+						data: data.toString('base64')
+					};
+				this.sendResponse(response);
+			},
+			() => {
+				response.body =
+					{
+						address: bits.hexAddress(address),
+						unreadableBytes: args.count
+					};
+				this.sendResponse(response);
+			});
+	}
+
+	/**
+	Write target memory.
+	*/
+	protected writeMemoryRequest
+		(
+		response: DebugProtocol.Response,
+		args: WriteMemoryArguments
+		): void {
+		this.debugServer('writeMemoryRequest\n');
+		const address = parseInt(args.memoryReference) + (args.offset || 0);
+		const data = Buffer.from(args.data, 'base64');
+
+		this.sendCommand(`-data-write-memory-bytes ${bits.hexAddress(address)} ${data.toString('hex')}`).then
+			((record: gdbMI.MIresult) => {
+				response.body =
+					{
+						offset: 0,
+						bytesWritten: data.length
+					};
+				this.sendResponse(response);
+			},
+			(record: gdbMI.MIresult) => {
+				this.sendErrorResponse(response, 0, record.results['msg'] as string);
+			});
+	}
+
+	protected scopesRequest
+		(
+		response: DebugProtocol.ScopesResponse,
+		args: DebugProtocol.ScopesArguments
+		): void {
+		this.debugServer('scopesRequest\n');
+		let scopes: Scope[] = [];
+
+		scopes.push(new Scope("REGISTER", REGISTER_SCOPE, true));
+		if (this.customVariables && this.customVariables.length > 0) {
+			scopes.push(new Scope("CUSTOM", CUSTOM_SCOPE, true));
+		}
+		scopes.push(new Scope("LOCAL", LOCAL_SCOPE, true));
+		scopes.push(new Scope("GLOBAL", GLOBAL_SCOPE, true));
+		scopes.push(new Scope("STATIC", STATIC_SCOPE, true));
+		if (this.svdFile) {
+			scopes.push(new Scope("PERIPHERALS", PERIPHERAL_SCOPE, true));
+		}
+		response.body =
+			{
+				scopes: scopes,
+			};
+		this.sendResponse(response);
+		if (this.stopped && this.autoRun) {
+			this.autoRun = false;
+			this.sendCommand('-exec-continue');
+		}
+	}
+
+	protected variablesRequest
+		(
+		response: DebugProtocol.VariablesResponse,
+		args: DebugProtocol.VariablesArguments
+		): void {
+		this.debugServer('variablesRequest\n');
+
+		const variablesReference: number = args.variablesReference;
 
 		switch (variablesReference) {
 			case REGISTER_SCOPE:
@@ -865,7 +2413,7 @@ export class GnuDebugSession extends DebugSession {
 						// Create a need a list with register names.
 						this.sendCommand('-data-list-register-names').then
 							((record: gdbMI.MIresult) => {
-								let names = record['register-names'];
+								let names = record.results['register-names'] as string[];
 								let promises: Promise<any>[] = [];
 
 								for (let name of names) {
@@ -877,12 +2425,14 @@ export class GnuDebugSession extends DebugSession {
 										promise.then
 											((record: gdbMI.MIresult) => {
 												name = name.toUpperCase();
-												let value = record['value'];
+												let value = record.results['value'] as string;
 												let variable = new Variable(varName, name, value, "");
 												variable.evaluateName = expression;
 												this.registers.push(variable);
 												this.nameToVariable[varName] = variable;
-											});
+											},
+											// Promise.all below handles the error
+											() => undefined);
 										promises.push(promise);
 									}
 								}
@@ -901,6 +2451,9 @@ export class GnuDebugSession extends DebugSession {
 											};
 										this.sendResponse(response);
 									});
+							},
+							(error) => {
+								this.sendErrorResponse(response, 0, errorMessage(error));
 							});
 					}
 					else {
@@ -911,6 +2464,9 @@ export class GnuDebugSession extends DebugSession {
 										variables: this.registers,
 									};
 								this.sendResponse(response);
+							},
+							(error) => {
+								this.sendErrorResponse(response, 0, errorMessage(error));
 							}
 						);
 					}
@@ -952,7 +2508,7 @@ export class GnuDebugSession extends DebugSession {
 					this.sendCommand
 						('-stack-list-variables --no-values').then
 						((record: gdbMI.MIresult) => {
-							let list = record['variables'];
+							let list: any = record.results['variables'];
 							let promises: Promise<any>[] = [];
 							this.variables = [];
 
@@ -973,26 +2529,95 @@ export class GnuDebugSession extends DebugSession {
 							}
 							promises.push(this.variableUpdate());
 
-							Promise.all(promises).then(() => {
+							return Promise.all(promises).then(() => {
 								response.body =
 									{
 										variables: this.variables,
 									};
 								this.sendResponse(response);
 							});
+						})
+						.catch((error) => {
+							this.sendErrorResponse(response, 0, errorMessage(error));
+						});
+				}
+				break;
+			case PERIPHERAL_SCOPE:
+				{
+					response.body =
+						{
+							variables: this.peripherals(),
+						};
+					this.sendResponse(response);
+				}
+				break;
+			case GLOBAL_SCOPE:
+			case STATIC_SCOPE:
+				{
+					this.symbolsRead().then
+						((scopes: SymbolScopes) => {
+							response.body =
+								{
+									variables: scopes[variablesReference],
+								};
+							this.sendResponse(response);
 						});
 				}
 				break;
 			default:
 				{
+					let peripheral = this.referenceToPeripheral[variablesReference];
+					let register = this.referenceToRegister[variablesReference];
+					let group = this.referenceToSymbols[variablesReference];
+
+					if (group) {
+						this.symbolVariables(group).then
+							((variables: DebugProtocol.Variable[]) => {
+								response.body =
+									{
+										variables: variables,
+									};
+								this.sendResponse(response);
+							});
+						break;
+					}
+
+					if (peripheral) {
+						this.peripheralRegisters(peripheral).then
+							((variables: DebugProtocol.Variable[]) => {
+								response.body =
+									{
+										variables: variables,
+									};
+								this.sendResponse(response);
+							});
+						break;
+					}
+					if (register) {
+						this.registerFields(register).then
+							((variables: DebugProtocol.Variable[]) => {
+								response.body =
+									{
+										variables: variables,
+									};
+								this.sendResponse(response);
+							});
+						break;
+					}
 					let promises: Promise<any>[] = [];
 					let variables: Variable[] = [];
 					let variable = this.referenceToVariable[variablesReference];
 
-					if (variable) {
-						let promise = this.createChildren(variable.varName, variables);
+					// An array has no named children
+					if (variable && !(args.filter === 'named' && variable.indexedVariables)) {
+						let promise = this.createChildren
+							(variable.varName, variables, args.start, args.count);
 						promises.push(promise);
 					}
+					// The address of an array child is only read when it is expanded
+					if (variable && variable.memoryReference === undefined) {
+						promises.push(this.arrayReference(variable));
+					}
 					Promise.all(promises).then
 						(() => {
 							response.body =
@@ -1013,12 +2638,110 @@ export class GnuDebugSession extends DebugSession {
 		}
 	}
 
+	/**
+	Read the global and static variables from the symbol table, grouped by
+	compilation unit. The symbol table is read once, the variables of a
+	compilation unit are created when it is expanded.
+	*/
+	private symbolsRead(): Promise<SymbolScopes> {
+		if (this.symbolScopes) {
+			return this.symbolScopes;
+		}
+		this.symbolScopes = this.sendCommand('-symbol-info-variables').then
+			((record: gdbMI.MIresult) => {
+				const symbols: any = record.results['symbols'];
+				let scopes: SymbolScopes = { [GLOBAL_SCOPE]: [], [STATIC_SCOPE]: [] };
+				const add = (scope: number, name: string, value: string, group: SymbolGroup) => {
+					const reference = this.variablesReference++;
+
+					this.referenceToSymbols[reference] = group;
+					scopes[scope].push({ name: name, value: value, variablesReference: reference });
+				};
+
+				for (let file of symbols['debug'] || []) {
+					const filename: string = file.filename;
+					// Two files can share a base name, only the full path is unique
+					const fullname: string = file.fullname || filename;
+					const basename = filename.replace(/^.*[\\/]/, '');
+					let globals: [string, string][] = [];
+					let statics: [string, string][] = [];
+
+					for (let symbol of file.symbols || []) {
+						if (/^static\b/.test(symbol.description || symbol.type || '')) {
+							// A file scope expression finds the variable in every frame
+							statics.push([symbol.name, `'${fullname}'::${symbol.name}`]);
+						}
+						else {
+							globals.push([symbol.name, symbol.name]);
+						}
+					}
+					if (globals.length) {
+						add(GLOBAL_SCOPE, basename, filename, { symbols: globals });
+					}
+					if (statics.length) {
+						add(STATIC_SCOPE, basename, filename, { symbols: statics });
+					}
+				}
+				const addresses: DebugProtocol.Variable[] = (symbols['nondebugging'] || []).map
+					((symbol: any) => ({
+						name: symbol.name,
+						value: symbol.address,
+						variablesReference: 0,
+						memoryReference: symbol.address
+					}));
+				if (addresses.length) {
+					add(GLOBAL_SCOPE, 'Non-debugging symbols', '', { symbols: [], addresses: addresses });
+				}
+				return scopes;
+			},
+			() => {
+				// GDB before version 10 has no -symbol-info-variables
+				this.symbolScopes = undefined;
+				return { [GLOBAL_SCOPE]: [], [STATIC_SCOPE]: [] };
+			});
+		return this.symbolScopes;
+	}
+
+	/**
+	Variables of a compilation unit, the variable objects are created the
+	first time and updated after that.
+	*/
+	private symbolVariables(group: SymbolGroup): Promise<DebugProtocol.Variable[]> {
+		if (group.addresses) {
+			return Promise.resolve(group.addresses);
+		}
+		if (group.variables) {
+			const variables = group.variables;
+			return this.variableUpdate().then(() => variables, () => variables);
+		}
+		let variables: Variable[] = [];
+
+		group.variables = variables;
+		return Promise.all(group.symbols.map(([name, expression]) =>
+			this.variableCreate('global:' + expression, expression, variables, true).then
+				(() => {
+					let variable = this.nameToVariable['global:' + expression];
+
+					variable.name = name;
+					variable.evaluateName = expression;
+				},
+				() => undefined)))
+			.then(() => variables);
+	}
+
 	protected setVariableRequest
 		(
 		response: DebugProtocol.SetVariableResponse,
 		args: DebugProtocol.SetVariableArguments
 		): void {
 		this.debugServer('setVariableRequest\n');
+		let peripheral = this.referenceToPeripheral[args.variablesReference];
+		let register = this.referenceToRegister[args.variablesReference];
+
+		if (peripheral || register) {
+			this.setPeripheralRequest(response, args);
+			return;
+		}
 		let parent = this.referenceToVariable[args.variablesReference];
 		let expression = args.value;
 		let varName;
@@ -1109,25 +2832,225 @@ export class GnuDebugSession extends DebugSession {
 		}
 	}
 
-	protected createChildren
-		(
-		/// GDB variable name
-		name: string,
-		/// Variables
-		variables: Variable[]
-		): Promise<any> {
-		this.debugServer('createChildren ' + name + '\n');
-		return new Promise((resolve, reject) => {
+	/**
+	The peripherals from the CMSIS-SVD file. The file is parsed the first time
+	the peripherals are shown.
+	*/
+	private peripherals(): DebugProtocol.Variable[] {
+		if (!this.device) {
+			try {
+				this.device = svd.parseSVD(fs.readFileSync(this.svdFile, 'utf8'));
+			}
+			catch (e) {
+				this.error(`ERROR: ${this.svdFile}: ${e.message}\n`);
+				this.device = new svd.SvdDevice;
+			}
+			for (let peripheral of this.device.peripherals) {
+				this.referenceToPeripheral[this.variablesReference++] = peripheral;
+			}
+		}
+		return Object.keys(this.referenceToPeripheral).map((key) => {
+			const reference = parseInt(key);
+			const peripheral = this.referenceToPeripheral[reference];
+
+			return {
+				name: peripheral.name,
+				value: bits.hex(peripheral.baseAddress, 32) + ' ' + peripheral.description,
+				variablesReference: reference
+			};
+		});
+	}
+
+	/**
+	Read the registers of a peripheral from the target. A register that changes
+	when it is read is shown as ? and only read when the user expands it.
+	*/
+	private peripheralRegisters(peripheral: svd.SvdPeripheral): Promise<DebugProtocol.Variable[]> {
+		let promises = peripheral.registers.map((register) => {
+			if (!register.readable() || register.readChanges()) {
+				register.value = undefined;
+				return Promise.resolve();
+			}
+			return this.registerRead(register).catch(() => { register.value = undefined; });
+		});
+		return Promise.all(promises).then(() => {
+			return peripheral.registers.map((register) => {
+				let reference = 0;
+
+				if (register.fields.length || (register.readable() && register.readChanges())) {
+					reference = this.variablesReference++;
+					this.referenceToRegister[reference] = register;
+				}
+				return {
+					name: register.name,
+					value: register.value === undefined ? '?' : register.format(register.value),
+					type: `${register.access} @ ${bits.hex(register.address, 32)}`,
+					evaluateName: register.description,
+					variablesReference: reference
+				};
+			});
+		});
+	}
+
+	/**
+	The fields of a register with the value of the last register read. A
+	register without fields that changes when it is read shows its value.
+	*/
+	private registerFields(register: svd.SvdRegister): Promise<DebugProtocol.Variable[]> {
+		let promise: Promise<any> = register.value === undefined && register.readable() ?
+			this.registerRead(register) : Promise.resolve();
+
+		return promise.then(() => {
+			if (!register.fields.length) {
+				return [{
+					name: 'value',
+					value: register.value === undefined ? '?' : register.format(register.value),
+					type: `read ${register.readAction}`,
+					variablesReference: 0
+				}];
+			}
+			return register.fields.map((field) => {
+				let value = register.value === undefined || !field.readable() ?
+					'?' : field.format(field.extract(register.value));
+				let bits = field.bitWidth === 1 ? `${field.bitOffset}` :
+					`${field.bitOffset + field.bitWidth - 1}:${field.bitOffset}`;
+
+				return {
+					name: field.name,
+					value: value,
+					type: `${field.access} [${bits}]`,
+					evaluateName: field.description,
+					variablesReference: 0
+				};
+			});
+		});
+	}
+
+	/**
+	Write a peripheral register or a single field of a register. A field is
+	written with a read-modify-write of the register.
+	*/
+	private setPeripheralRequest
+		(
+		response: DebugProtocol.SetVariableResponse,
+		args: DebugProtocol.SetVariableArguments
+		) {
+		let peripheral = this.referenceToPeripheral[args.variablesReference];
+		let register = this.referenceToRegister[args.variablesReference];
+		let promise: Promise<string>;
+
+		if (peripheral) {
+			let r = peripheral.registers.filter((r) => r.name === args.name)[0];
+			let value = svd.parseNumber(args.value);
+
+			if (!r || !r.writable()) {
+				promise = Promise.reject(`${args.name} is read-only`);
+			}
+			else if (isNaN(value)) {
+				promise = Promise.reject(`Invalid value ${args.value}`);
+			}
+			else {
+				promise = this.registerWrite(r, value)
+					.then(() => r.readable() && !r.readChanges() ? this.registerRead(r) : value)
+					.then((value: number) => r.format(value));
+			}
+		}
+		else {
+			let field = register.fields.filter((f) => f.name === args.name)[0];
+			let value = field ? field.parse(args.value) : NaN;
+
+			if (!field || !field.writable()) {
+				promise = Promise.reject(`${args.name} is read-only`);
+			}
+			else if (isNaN(value)) {
+				promise = Promise.reject(`Invalid value ${args.value}`);
+			}
+			else {
+				let read = register.readable() ? 
+					this.registerRead(register) : Promise.resolve(register.resetValue);
+
+				promise = read
+					.then((old: number) => {
+						const written = field.insert(old, value);
+
+						return this.registerWrite(register, written).then(() =>
+							register.readable() && !register.readChanges() ? this.registerRead(register) : written);
+					})
+					.then((value: number) => field.format(field.extract(value)));
+			}
+		}
+		promise.then
+			((value: string) => {
+				response.body =
+					{
+						value: value
+					};
+				this.sendResponse(response);
+			},
+			(error) => {
+				this.sendErrorResponse(response, 0, errorMessage(error));
+			});
+	}
+
+	/**
+	Read a peripheral register from target memory (little endian).
+	*/
+	private registerRead(register: svd.SvdRegister): Promise<number> {
+		const command = 
+			`-data-read-memory-bytes ${bits.hex(register.address, 32)} ${register.bytes()}`;
+
+		return this.sendCommand(command).then
+			((record: gdbMI.MIresult) => {
+				const value = littleEndian((record.results['memory'] as any)[0].contents);
+				register.value = value;
+				return value;
+			});
+	}
+
+	/**
+	Write a peripheral register to target memory (little endian).
+	*/
+	private registerWrite(register: svd.SvdRegister, value: number): Promise<any> {
+		let contents = '';
+		let v = value;
+
+		for (let i = 0; i < register.bytes(); i++) {
+			contents += ('0' + (v % 256).toString(16)).slice(-2);
+			v = Math.floor(v / 256);
+		}
+		register.value = value;
+		return this.sendCommand
+			(`-data-write-memory-bytes ${bits.hex(register.address, 32)} ${contents}`);
+	}
+
+	protected createChildren
+		(
+		/// GDB variable name
+		name: string,
+		/// Variables
+		variables: Variable[],
+		/// Index of the first child, e.g. of a chunk of array elements
+		start?: number,
+		/// Number of children, all children when undefined or 0
+		count?: number
+		): Promise<any> {
+		this.debugServer('createChildren ' + name + '\n');
+		// The commands of the children belong to the same request
+		const request = this.request;
+
+		return new Promise((resolve, reject) => {
+			// GDB lists the children from start up to, not including, start + count
+			const range = count ? ` ${start || 0} ${(start || 0) + count}` : '';
 			let promise =
-				this.sendCommand(`-var-list-children --simple-values "${name}"`);
+				this.sendCommand(`-var-list-children --simple-values "${escape(name)}"${range}`);
 			promise.then
 				((record: gdbMI.MIresult) => {
 					let promises: Promise<any>[] = [];
 
-					let children = record['children'];
+					let children = gdbMI.resultList(record.results['children']);
 
 					for (let c of children) {
-						let child = c.value;
+						let child: any = c.value;
 						let name = child.exp;
 
 						switch (name) {
@@ -1137,7 +3060,8 @@ export class GnuDebugSession extends DebugSession {
 							case '<anonymous union>':
 							case '<anonymous struct>':
 								{
-									let promise = this.createChildren(child.name, variables);
+									let promise = this.inRequest
+										(request, () => this.createChildren(child.name, variables));
 									promises.push(promise);
 								}
 								break;
@@ -1166,6 +3090,9 @@ export class GnuDebugSession extends DebugSession {
 										let reference = this.variablesReference++;
 										variable.variablesReference = reference;
 										this.referenceToVariable[reference] = variable;
+										if (variable.isArray()) {
+											variable.indexedVariables = numchild;
+										}
 									}
 									break;
 								}
@@ -1178,6 +3105,10 @@ export class GnuDebugSession extends DebugSession {
 						() => {
 							reject();
 						});
+				},
+				(error) => {
+					// E.g. the request was cancelled
+					reject(error);
 				});
 		});
 	}
@@ -1193,13 +3124,22 @@ export class GnuDebugSession extends DebugSession {
 		expression: string,
 		/// List with variables
 		variables: Variable[],
+		/// Do not show an error, e.g. for a hover
+		silent: boolean = false,
+		/// Frame of the expression, the variable does not follow the selected frame
+		frame?: number
 	): Promise<any> {
-		return this.sendCommand(`-var-create "${name}" @ "${expression}"`).then
+		const request = this.request;
+		const command = frame === undefined ?
+			`-var-create "${escape(name)}" @ "${escape(expression)}"` :
+			`-var-create --thread ${this.threadId} --frame ${frame} "${escape(name)}" * "${escape(expression)}"`;
+
+		return this.sendCommand(command, silent).then
 			((record: gdbMI.MIresult) => {
-				let varName = record['name'];
-				let value = record['value'];
-				let type = record['type'];
-				let numchild: number = parseInt(record['numchild']);
+				let varName = record.results['name'] as string;
+				let value = record.results['value'] as string;
+				let type = record.results['type'] as string;
+				let numchild: number = parseInt(record.results['numchild'] as string);
 
 				let variable = new Variable(varName, varName, value, type);
 
@@ -1207,12 +3147,40 @@ export class GnuDebugSession extends DebugSession {
 					let reference = this.variablesReference++;
 					variable.variablesReference = reference;
 					this.referenceToVariable[reference] = variable;
+					if (variable.isArray()) {
+						variable.indexedVariables = numchild;
+					}
 				}
 				variables.push(variable);
 				this.nameToVariable[varName] = variable;
+				return this.inRequest(request, () => this.arrayReference(variable));
 			});
 	}
 
+	/**
+	The memory reference of an array is the address of its first element. It
+	costs two commands, so the children of a variable only get it when they are
+	expanded.
+	*/
+	protected arrayReference(variable: Variable): Promise<any> {
+		if (!variable.isArray()) {
+			return Promise.resolve();
+		}
+		const request = this.request;
+
+		return this.sendCommand(`-var-info-path-expression "${escape(variable.varName)}"`).then
+			((record: gdbMI.MIresult) => this.inRequest(request, () =>
+				this.sendCommand(`-data-evaluate-expression "&(${escape(record.results['path_expr'] as string)})"`)))
+			.then
+			((record: gdbMI.MIresult) => {
+				const match = /0x[0-9A-Fa-f]+/.exec(record.results['value'] as string);
+				if (match) {
+					variable.memoryReference = match[0];
+				}
+			},
+			() => { });
+	}
+
 	/**
 	Assign a GDB variable
 	*/
@@ -1223,11 +3191,11 @@ export class GnuDebugSession extends DebugSession {
 		/// Expression to evaluate to assign value of variable 
 		expression: string
 		): Promise<any> {
-		return this.sendCommand(`-var-assign "${name}" "${expression}"`).then
+		return this.sendCommand(`-var-assign "${escape(name)}" "${escape(expression)}"`).then
 			((record: gdbMI.MIresult) => {
 				let variable = this.nameToVariable[name];
 				if (variable) {
-					variable.putValue(record['value']);
+					variable.putValue(record.results['value'] as string);
 				}
 			});
 	}
@@ -1242,12 +3210,12 @@ export class GnuDebugSession extends DebugSession {
 		/// Format of variable 
 		format: string
 		): Promise<any> {
-		return this.sendCommand(`-var-set-format "${name}" ${format}`).then
+		return this.sendCommand(`-var-set-format "${escape(name)}" ${format}`).then
 			((record: gdbMI.MIresult) => {
 				let variable = this.nameToVariable[name];
 				if (variable) {
-					variable.format = record['format'];
-					variable.putValue(record['value']);
+					variable.format = record.results['format'] as string;
+					variable.putValue(record.results['value'] as string);
 				}
 			});
 	}
@@ -1259,7 +3227,7 @@ export class GnuDebugSession extends DebugSession {
 		let promise = this.sendCommand('-var-update --all-values *');
 		promise.then
 			((record: gdbMI.MIresult) => {
-				let changelist = record['changelist'];
+				let changelist: any = record.results['changelist'];
 
 				for (let change of changelist) {
 					let variable = this.nameToVariable[change.name];
@@ -1268,7 +3236,9 @@ export class GnuDebugSession extends DebugSession {
 						variable.putValue(change.value);
 					}
 				}
-			});
+			},
+			// The caller handles the error
+			() => undefined);
 		return promise;
 	}
 
@@ -1282,6 +3252,9 @@ export class GnuDebugSession extends DebugSession {
 		this.sendCommand(`-exec-continue --thread ${this.threadId}`).then
 			((record: gdbMI.MIresult) => {
 				this.sendResponse(response);
+			},
+			(error) => {
+				this.sendErrorResponse(response, 0, errorMessage(error));
 			});
 	}
 
@@ -1294,6 +3267,9 @@ export class GnuDebugSession extends DebugSession {
 		this.sendCommand(`-exec-interrupt --thread ${this.threadId}`).then
 			((record: gdbMI.MIresult) => {
 				this.sendResponse(response);
+			},
+			(error) => {
+				this.sendErrorResponse(response, 0, errorMessage(error));
 			});
 	}
 
@@ -1303,9 +3279,13 @@ export class GnuDebugSession extends DebugSession {
 		args: DebugProtocol.NextArguments
 		): void {
 		this.debugServer('nextRequest\n');
-		this.sendCommand(`-exec-next --thread ${this.threadId}`).then
+		const command = instructionStep(args) ? '-exec-next-instruction' : '-exec-next';
+		this.sendCommand(`${command} --thread ${this.threadId}`).then
 			((record: gdbMI.MIresult) => {
 				this.sendResponse(response);
+			},
+			(error) => {
+				this.sendErrorResponse(response, 0, errorMessage(error));
 			});
 	}
 
@@ -1315,9 +3295,13 @@ export class GnuDebugSession extends DebugSession {
 		args: DebugProtocol.StepInArguments
 		): void {
 		this.debugServer('stepInRequest\n');
-		this.sendCommand(`-exec-step --thread ${this.threadId}`).then
+		const command = instructionStep(args) ? '-exec-step-instruction' : '-exec-step';
+		this.sendCommand(`${command} --thread ${this.threadId}`).then
 			((record: gdbMI.MIresult) => {
 				this.sendResponse(response);
+			},
+			(error) => {
+				this.sendErrorResponse(response, 0, errorMessage(error));
 			});
 	}
 
@@ -1330,187 +3314,1108 @@ export class GnuDebugSession extends DebugSession {
 		this.sendCommand(`-exec-finish --thread ${this.threadId}`).then
 			((record: gdbMI.MIresult) => {
 				this.sendResponse(response);
+			},
+			(error) => {
+				this.sendErrorResponse(response, 0, errorMessage(error));
 			});
 	}
 
-	protected restartRequest
+	/**
+	The target of a jump is the line of the cursor, GDB moves the location to the
+	first line with code.
+	*/
+	protected gotoTargetsRequest
 		(
-		response: DebugProtocol.RestartResponse,
-		args: DebugProtocol.RestartArguments
+		response: DebugProtocol.GotoTargetsResponse,
+		args: DebugProtocol.GotoTargetsArguments
 		): void {
-		this.debugServer('restartRequest\n');
-		this.sendCommand('-exec-run').then
-			((record: gdbMI.MIresult) => {
-				this.sendResponse(response);
-			});
+		this.debugServer('gotoTargetsRequest\n');
+		const filename = (args.source.path || '').replace(/\\/g, '/');
+
+		this.gotoTargets.clear();
+		this.gotoTargets.set(1, `${filename}:${args.line}`);
+		response.body =
+			{
+				targets: [{ id: 1, label: `${args.source.name}:${args.line}`, line: args.line }]
+			};
+		this.sendResponse(response);
 	}
 
-	protected disconnectRequest
+	/**
+	Set the next statement. GDB resumes at the new location, a temporary
+	breakpoint halts the thread there again.
+	*/
+	protected gotoRequest
 		(
-		response: DebugProtocol.DisconnectResponse,
-		args: DebugProtocol.DisconnectArguments
+		response: DebugProtocol.GotoResponse,
+		args: DebugProtocol.GotoArguments
 		): void {
-		this.debugServer('disconnectRequest\n');
-		this.debugServer('Client kill\n');
-		// Kill the client
-		try { this.client.kill(); } catch (error) { }
-		this.debugServer('Server kill\n');
-		// Kill the server 
-		try { this.server.kill(); } catch (error) { }
-
-		this.sendResponse(response);
+		this.debugServer('gotoRequest\n');
+		const location = this.gotoTargets.get(args.targetId);
+		const thread = this.gdbThread(args.threadId);
+
+		if (!location || thread === undefined) {
+			this.sendErrorResponse(response, 0, location ?
+				'Jump is only possible in the running task' : `Unknown goto target ${args.targetId}`);
+			return;
+		}
+		this.temporaryInsert(location, 'goto')
+			.then(() => this.sendCommand(`-exec-jump --thread ${thread} "${location}"`))
+			.then
+			((record: gdbMI.MIresult) => {
+				this.sendResponse(response);
+			},
+			(error) => {
+				this.temporaryDelete();
+				this.sendErrorResponse(response, 0, `Jump failed: ${errorMessage(error)}`);
+			});
 	}
 
-	protected evaluateRequest
+	/**
+	Continue until the line is reached, or until the thread stops for another
+	reason, e.g. at a breakpoint.
+	*/
+	protected runToLineRequest
 		(
-		response: DebugProtocol.EvaluateResponse,
-		args: DebugProtocol.EvaluateArguments
+		response: DebugProtocol.Response,
+		args: RunToLineArguments
 		): void {
-		this.debugServer('evaluateRequest\n');
+		this.debugServer('runToLineRequest\n');
+		const filename = (args.source.path || '').replace(/\\/g, '/');
+		const thread = this.gdbThread(args.threadId === undefined ? this.stoppedThreadId : args.threadId);
 
-		switch (args.context) {
-			// User typed a GDB command in the console
-			case 'repl':
-				this.sendCommand(args.expression).then
-					((record: gdbMI.MIresult) => {
-						this.sendResponse(response);
-					},
-					() => {
-						this.sendResponse(response);
-					});
-				break;
+		if (thread === undefined) {
+			this.sendErrorResponse(response, 0, 'Run to line is only possible in the running task');
+			return;
+		}
+		this.temporaryInsert(`${filename}:${args.line}`, 'step')
+			.then(() => this.sendCommand(`-exec-continue --thread ${thread}`))
+			.then
+			((record: gdbMI.MIresult) => {
+				this.sendResponse(response);
+			},
+			(error) => {
+				this.temporaryDelete();
+				this.sendErrorResponse(response, 0, `Run to line failed: ${errorMessage(error)}`);
+			});
+	}
 
-			// User request information about a variable.
-			case 'hover':
-				this.sendCommand(`-data-evaluate-expression "${args.expression}"`).then
-					((record: gdbMI.MIresult) => {
-						response.body =
-							{
-								result: record['value'],
-								variablesReference: 0
-							};
-						this.sendResponse(response);
-					},
-					() => {
-						this.sendResponse(response);
-					});
-				break;
+	/**
+	GDB thread of a thread shown by the UI. A task of the RTOS that is not
+	running has no GDB thread.
+	*/
+	private gdbThread(threadId: number): number | undefined {
+		const thread = this.rtosThreads.get(threadId);
 
-			case 'watch':
-				let expression = args.expression;
-				let name = "watch:" + expression;
-				let variable = this.nameToVariable[name];
+		if (thread) {
+			return thread.current ? this.threadId : undefined;
+		}
+		return threadId;
+	}
 
-				if (variable) {
-					this.variableUpdate().then
-						(() => {
-							response.body =
-								{
-									result: variable.value,
-									variablesReference: variable.variablesReference
-								};
-							this.sendResponse(response);
-						},
-						() => {
-							this.sendResponse(response);
-						});
-				}
-				else {
-					this.variableCreate(name, expression, this.variables).then
-						(() => {
-							let variable = this.nameToVariable[name];
-							response.body =
-								{
-									result: variable.value,
-									variablesReference: variable.variablesReference
-								};
-							this.sendResponse(response);
-						},
-						() => {
-							response.body =
-								{
-									result: '',
-									variablesReference: 0
-								};
-							this.sendResponse(response);
-						});
-				}
-				break;
+	private temporaryInsert(location: string, reason: string): Promise<void> {
+		this.temporaryDelete();
+		return this.sendCommand(`-break-insert -t "${location}"`).then
+			((record: gdbMI.MIresult) => {
+				this.temporaryBreakpoint = { number: parseInt((record.results['bkpt'] as gdbMI.MItuple)['number'] as string), reason: reason };
+			});
+	}
 
-			default:
-				this.sendResponse(response);
-				break;
+	private temporaryDelete() {
+		if (this.temporaryBreakpoint) {
+			this.sendCommand(`-break-delete ${this.temporaryBreakpoint.number}`, true).catch(() => undefined);
+			this.temporaryBreakpoint = undefined;
 		}
 	}
 
-	protected customRequest
+	protected restartRequest
 		(
-		command: string,
-		response: DebugProtocol.Response,
-		args: any
+		response: DebugProtocol.RestartResponse,
+		args: DebugProtocol.RestartArguments
 		): void {
-		this.debugServer('customRequest\n');
+		this.debugServer('restartRequest\n');
+		this.restart().then
+			(() => {
+				this.sendResponse(response);
+				// The RTT control block is searched again after a restart
+				for (let connection of this.rttConnections) {
+					connection.reconnect();
+				}
+				this.autoRun = this.autoRunRestart;
+				this.stopped('start', this.threadId);
+			},
+			(error) => {
+				this.sendErrorResponse
+					(response, 0, `Restart failed: ${errorMessage(error)}`);
+			});
+	}
+
+	/**
+	Reset the target with the reset command of the GDB server. The firmware is
+	downloaded again when it changed on disk, an attach session only loads the
+	new symbols. The breakpoints are inserted again and the variable objects of
+	the old firmware are deleted.
+	*/
+	private async restart(): Promise<void> {
+		const profile = this.profile;
+		const time = modificationTime(this.program);
+		const changed = time !== this.programTime;
+
+		if (!this.halt) {
+			await this.sendCommand('-exec-interrupt');
+			await this.haltWait(this.commandTimeout);
+		}
+		await this.variablesDelete();
+		if (changed) {
+			this.message(`Program changed  = ${this.program}\n`);
+			await this.sendCommand(this.attached ?
+				`-file-symbol-file "${this.program}"` : `-file-exec-and-symbols "${this.program}"`);
+		}
+		for (let command of profile.halt.concat(profile.reset)) {
+			await this.sendCommand(command);
+		}
+		if (changed && !this.attached) {
+			for (let command of profile.reload || profile.download) {
+				await this.sendCommand(command, false, this.downloadTimeout);
+			}
+		}
+		this.programTime = time;
+		await this.breakpointsInsert();
 	}
 
-	private launchCommands(commands: string[]) {
-		const promises = commands.map((c) => this.sendCommand(c));
+	/**
+	Delete the variable objects in GDB and forget all variables. Deleting a
+	variable object also deletes its children.
+	*/
+	private variablesDelete(): Promise<any> {
+		const names = Object.keys(this.nameToVariable).map((key) => this.nameToVariable[key].varName);
+		const parents = names.filter((name, i) =>
+			names.indexOf(name) === i && !names.some((parent) => name.indexOf(parent + '.') === 0));
+
+		this.registers = [];
+		this.customs = [];
+		this.variables = [];
+		this.temporaries = [];
+		this.temporaryNames.clear();
+		this.symbolScopes = undefined;
+		this.referenceToSymbols = {};
+		this.nameToVariable = {};
+		this.referenceToVariable = {};
+		this.rtosThreads.clear();
+		this.currentFault = undefined;
+		return Promise.all(parents.map((name) =>
+			this.sendCommand(`-var-delete "${escape(name)}"`, true).catch(() => undefined)));
+	}
 
-		Promise.all(promises).then(() => {
-			this.debugServer('launchCommands send \n');
-			this.stopped('start', this.threadId);
-			// We are ready to set breakpoints. 
-			this.sendEvent(new InitializedEvent());
-		});
+	/**
+	Insert every kind of breakpoint again, e.g. after the firmware is downloaded
+	again. The UI is told about breakpoints that moved or are no longer verified.
+	*/
+	private breakpointsInsert(): Promise<any> {
+		return Promise.all(Array.from(this.breakpointInserts).map(([kind, insert]) =>
+			insert().then((breakpoints) => {
+				const ids = this.breakpointIds.get(kind) || [];
+
+				breakpoints.forEach((b, index) => {
+					b.id = ids[index];
+					this.sendEvent(new BreakpointEvent('changed', b));
+				});
+			})));
 	}
 
-	private sendCommand(command: string): Promise<any> {
-		// Every command gets an unique token
-		const token = this.token++;
+	protected disconnectRequest
+		(
+		response: DebugProtocol.DisconnectResponse,
+		args: DebugProtocol.DisconnectArguments
+		): void {
+		this.debugServer('disconnectRequest\n');
+		const terminateDebuggee = args.terminateDebuggee !== undefined ?
+			args.terminateDebuggee : this.terminateDebuggee;
 
-		command = token + command + '\n'
-		this.debugServer(command);
+		this.sessionStop(terminateDebuggee).then(() => this.sendResponse(response));
+	}
 
-		return new Promise((resolve, reject) => {
-			this.handlers[token] = (record: gdbMI.MIresult) => {
-				if (record.class == 'error') {
-					this.error(`ERROR: ${record['msg']}\n`);
-					reject(record);
-				}
-				else {
-					resolve(record);
-				}
-			};
-			this.client.stdin.write(command);
+	/**
+	End the session. The target is left halted when terminateDebuggee is set,
+	otherwise it keeps running.
+	*/
+	protected terminateRequest
+		(
+		response: DebugProtocol.TerminateResponse,
+		args: DebugProtocol.TerminateArguments
+		): void {
+		this.debugServer('terminateRequest\n');
+		this.sessionStop(this.terminateDebuggee).then(() => {
+			this.sendResponse(response);
+			this.terminate();
 		});
 	}
 
-	private debugClient(text: string) {
-		if (this.debugOutput) {
-			this.sendEvent(new OutputEvent(text, 'stdout'));
-		}
+	/**
+	The program on the target exited, GDB reports the exit code.
+	*/
+	private programExit(exitCode: number) {
+		this.halt = true;
+		this.message(`Program exited with code ${exitCode}\n`);
+		this.sessionStop(this.terminateDebuggee).then(() => this.terminate(exitCode));
 	}
 
-	private debugServer(text: string) {
-		if (this.debugOutput) {
-			this.sendEvent(new OutputEvent(text, 'console'));
+	/**
+	Report the end of the session once, with the exit code when it is known.
+	*/
+	private terminate(exitCode?: number) {
+		if (!this.terminated) {
+			this.terminated = true;
+			if (exitCode !== undefined) {
+				// The debug adapter has no class for the exited event
+				this.sendEvent(new Event('exited', { exitCode: exitCode }));
+			}
+			this.sendEvent(new TerminatedEvent());
 		}
 	}
 
-	private stdout(text: string) {
-		this.sendEvent(new OutputEvent(text, 'stdout'));
+	/**
+	Stop GDB and the GDB server. GDB disconnects from the target and exits, the
+	target is left halted when terminateDebuggee is set, otherwise it keeps
+	running. GDB and the GDB server are killed when they do not exit in time.
+	*/
+	private sessionStop(terminateDebuggee: boolean): Promise<void> {
+		if (!this.shutdownPromise) {
+			this.shutdownPromise = this.processesStop(terminateDebuggee);
+		}
+		return this.shutdownPromise;
 	}
 
-	private error(text: string) {
-		this.sendEvent(new OutputEvent(text, 'stderr'));
+	private async processesStop(terminateDebuggee: boolean): Promise<void> {
+		const command = (c: string) => this.sendCommand(c, true, SHUTDOWN_TIMEOUT).catch(() => undefined);
+
+		this.swoStop();
+		this.rttStop();
+		if (running(this.client)) {
+			this.debugServer('Client exit\n');
+			if (!this.halt) {
+				await command('-exec-interrupt');
+				await this.haltWait(SHUTDOWN_TIMEOUT);
+			}
+			// Detach resumes the target, disconnect leaves it halted
+			await command(terminateDebuggee ? '-target-disconnect' : '-target-detach');
+			await command('-gdb-exit');
+			await stopProcess(this.client, SHUTDOWN_TIMEOUT, false);
+		}
+		if (running(this.server)) {
+			this.debugServer('Server exit\n');
+			await stopProcess(this.server, SHUTDOWN_TIMEOUT, true);
+		}
 	}
 
-	private stopped(reason: string, threadId: number) {
-		this.halt = true;
-		this.sendEvent(new StoppedEvent(reason, threadId));
+	/**
+	Resolves when the target halted or after the timeout.
+	*/
+	private haltWait(timeout: number): Promise<void> {
+		const POLL_DELAY = 50;
+		const start = Date.now();
+
+		return new Promise((resolve) => {
+			const poll = () => {
+				if (this.halt || Date.now() - start >= timeout) {
+					resolve();
+				}
+				else {
+					setTimeout(poll, POLL_DELAY);
+				}
+			};
+			poll();
+		});
+	}
+
+	/**
+	Halt on the exceptions of the enabled filters with vector catch. The vector
+	catch command of the GDB server is used, without one DEMCR is written.
+	*/
+	protected setExceptionBreakPointsRequest
+		(
+		response: DebugProtocol.SetExceptionBreakpointsResponse,
+		args: DebugProtocol.SetExceptionBreakpointsArguments
+		): void {
+		this.debugServer('setExceptionBreakPointsRequest\n');
+		const vectors = fault.filterVectors(args.filters);
+		const profile = this.profile;
+		let promise: Promise<any> = Promise.resolve();
+
+		if (!profile.capabilities.vectorCatch) {
+			if (vectors.length) {
+				this.error(`ERROR: ${profile.name} does not support vector catch\n`);
+			}
+		}
+		else if (profile.vectorCatch) {
+			promise = Promise.all(profile.vectorCatch(vectors).map((c) => this.sendCommand(c)));
+		}
+		else {
+			promise = this.rtosTarget().readWords(fault.DEMCR, 1).then
+				((words) => this.sendCommand
+					(`-data-evaluate-expression "*(unsigned int*)${bits.hexAddress(fault.DEMCR)}=` +
+					`${fault.vectorCatch(words[0], vectors)}"`));
+		}
+		promise.then
+			(() => {
+				this.sendResponse(response);
+			},
+			(error) => {
+				this.sendErrorResponse
+					(response, 0, `Vector catch: ${errorMessage(error)}`);
+			});
+	}
+
+	/**
+	Explain the fault when the core stopped in a fault handler.
+	*/
+	protected exceptionInfoRequest
+		(
+		response: DebugProtocol.ExceptionInfoResponse,
+		args: DebugProtocol.ExceptionInfoArguments
+		): void {
+		this.debugServer('exceptionInfoRequest\n');
+		const f = this.currentFault;
+
+		if (!f) {
+			this.sendErrorResponse(response, 0, 'No fault');
+			return;
+		}
+		response.body =
+			{
+				exceptionId: f.name(),
+				description: f.description(),
+				breakMode: 'always',
+				details:
+					{
+						message: f.details(),
+						typeName: 'Cortex-M fault',
+					}
+			};
+		this.sendResponse(response);
+	}
+
+	protected evaluateRequest
+		(
+		response: DebugProtocol.EvaluateResponse,
+		args: DebugProtocol.EvaluateArguments
+		): void {
+		this.debugServer('evaluateRequest\n');
+
+		switch (args.context) {
+			// User typed a GDB command or an expression in the console
+			case 'repl':
+				this.replEvaluate(response, args.expression.trim(), args.frameId);
+				break;
+
+			// User request information about a variable.
+			case 'hover':
+				this.hoverEvaluate(response, args.expression, args.frameId);
+				break;
+
+			case 'watch':
+				this.variableEvaluate(response, 'watch:' + args.expression, args.expression);
+				break;
+
+			default:
+				this.sendResponse(response);
+				break;
+		}
+	}
+
+	/**
+	A hover without a value shows nothing.
+	*/
+	private hoverEvaluate
+		(
+		response: DebugProtocol.EvaluateResponse,
+		expression: string,
+		frame?: number
+		) {
+		this.temporaryEvaluate(response, 'hover', expression, frame).catch
+			(() => {
+				this.sendResponse(response);
+			});
+	}
+
+	/**
+	The value of a hover or of an expression in the console is a temporary
+	variable object, so a structure, array or class instance can be expanded.
+	The variable objects are deleted when the target runs. Their names are
+	numbered, a name derived from the expression could look like the name of a
+	child of another variable object.
+	*/
+	private temporaryEvaluate
+		(
+		response: DebugProtocol.EvaluateResponse,
+		/// hover or repl
+		context: string,
+		expression: string,
+		frame?: number
+		): Promise<void> {
+		const key = `${context}:${frame}:${expression}`;
+		const name = this.temporaryNames.get(key) || context + this.temporaryNumber++;
+		let promise = this.nameToVariable[name] ? Promise.resolve() :
+			this.variableCreate(name, expression, this.temporaries, true, frame);
+
+		return promise.then
+			(() => {
+				let variable = this.nameToVariable[name];
+				this.temporaryNames.set(key, name);
+				response.body =
+					{
+						result: variable.value,
+						variablesReference: variable.variablesReference,
+						indexedVariables: variable.indexedVariables,
+						memoryReference: variable.memoryReference
+					};
+				this.sendResponse(response);
+			});
+	}
+
+	/**
+	Delete the temporary variable objects and their children.
+	*/
+	private temporariesDelete() {
+		const names = this.temporaries.map((variable) => variable.varName);
+		const temporary = (variable: Variable) =>
+			names.some((name) => variable.varName === name || variable.varName.indexOf(name + '.') === 0);
+
+		for (let key of Object.keys(this.nameToVariable)) {
+			if (temporary(this.nameToVariable[key])) {
+				delete this.nameToVariable[key];
+			}
+		}
+		for (let key of Object.keys(this.referenceToVariable)) {
+			if (temporary(this.referenceToVariable[key])) {
+				delete this.referenceToVariable[key];
+			}
+		}
+		for (let name of names) {
+			this.sendCommand(`-var-delete "${escape(name)}"`, true).catch(() => undefined);
+		}
+		this.temporaries = [];
+		this.temporaryNames.clear();
+	}
+
+	/**
+	GDB MI commands start with a dash and show their result record, GDB CLI
+	commands show the output of the console interpreter of GDB. Other input is
+	an expression with a value that can be expanded.
+	*/
+	private replEvaluate(response: DebugProtocol.EvaluateResponse, input: string, frame?: number) {
+		let promise: Promise<string>;
+
+		if (/^-[a-z]/.test(input)) {
+			promise = this.sendCommand(input, true).then
+				((record: gdbMI.MIresult) => gdbMI.formatMI(record.results));
+		}
+		else if (isCliCommand(input)) {
+			let output: string[] = [];
+
+			promise = this.sendCommand
+				(`-interpreter-exec console "${escape(input)}"`, true, this.commandTimeout, output).then
+				(() => output.join('').replace(/\n$/, ''));
+		}
+		else {
+			this.temporaryEvaluate(response, 'repl', input, frame).catch
+				((error) => {
+					this.sendErrorResponse(response, 0, errorMessage(error));
+				});
+			return;
+		}
+		promise.then
+			((result) => {
+				response.body =
+					{
+						result: result,
+						variablesReference: 0
+					};
+				this.sendResponse(response);
+			},
+			(error) => {
+				this.sendErrorResponse(response, 0, errorMessage(error));
+			});
+	}
+
+	/**
+	Evaluate an expression as a variable object, so the value can be expanded.
+	The variable object is updated when the expression is evaluated again.
+	*/
+	private variableEvaluate
+		(
+		response: DebugProtocol.EvaluateResponse,
+		name: string,
+		expression: string
+		) {
+		let variable = this.nameToVariable[name];
+
+		if (variable) {
+			this.variableUpdate().then
+				(() => {
+					response.body =
+						{
+							result: variable.value,
+							variablesReference: variable.variablesReference,
+							indexedVariables: variable.indexedVariables,
+							memoryReference: variable.memoryReference
+						};
+					this.sendResponse(response);
+				},
+				() => {
+					this.sendResponse(response);
+				});
+		}
+		else {
+			this.variableCreate(name, expression, this.variables).then
+				(() => {
+					let variable = this.nameToVariable[name];
+					response.body =
+						{
+							result: variable.value,
+							variablesReference: variable.variablesReference,
+							indexedVariables: variable.indexedVariables,
+							memoryReference: variable.memoryReference
+						};
+					this.sendResponse(response);
+				},
+				() => {
+					response.body =
+						{
+							result: '',
+							variablesReference: 0
+						};
+					this.sendResponse(response);
+				});
+		}
+	}
+
+	/**
+	Complete the input of the debug console. GDB completes CLI commands and
+	expressions, the monitor commands come from the profile of the GDB server.
+	*/
+	protected completionsRequest
+		(
+		response: DebugProtocol.CompletionsResponse,
+		args: DebugProtocol.CompletionsArguments
+		): void {
+		this.debugServer('completionsRequest\n');
+		const text = args.text.substring(0, args.column - 1);
+		const start = wordStart(text);
+		const monitor = /^(monitor|mon)\s+/.exec(text);
+		let promises: Promise<string[]>[] = [];
+
+		if (monitor) {
+			const command = text.substring(monitor[0].length);
+			promises.push(Promise.resolve(this.profile.monitor
+				.filter((m) => m.indexOf(command) === 0)
+				.map((m) => monitor[0] + m)));
+		}
+		else if (!/^-/.test(text)) {
+			const cli = isCliCommand(text);
+
+			// A single word is a command or the start of an expression
+			if (cli || /^[a-z]*$/.test(text)) {
+				promises.push(this.complete(text));
+			}
+			if (!cli) {
+				promises.push(this.complete('print ' + text).then
+					((matches) => matches.map((m) => m.substring('print '.length))));
+			}
+		}
+		Promise.all(promises).then
+			((lists) => {
+				let matches: string[] = [];
+
+				for (let list of lists) {
+					matches.push(...list.filter((m) => matches.indexOf(m) < 0));
+				}
+				response.body =
+					{
+						targets: matches
+							.filter((m) => m.indexOf(text.substring(0, start)) === 0 && m.length > start)
+							.map((m) => ({ label: m.substring(start), start: start, length: text.length - start }))
+					};
+				this.sendResponse(response);
+			});
+	}
+
+	/**
+	Complete a CLI command with -complete. Resolves to the complete lines.
+	*/
+	private complete(text: string): Promise<string[]> {
+		return this.sendCommand(`-complete "${escape(text)}"`, true).then
+			((record: gdbMI.MIresult) => record.results['matches'] as string[] || [], () => []);
+	}
+
+	protected customRequest
+		(
+		command: string,
+		response: DebugProtocol.Response,
+		args: any
+		): void {
+		this.debugServer('customRequest\n');
+		switch (command) {
+			case 'setInstructionBreakpoints':
+				this.setInstructionBreakpointsRequest(response, args);
+				break;
+			case 'writeMemory':
+				this.writeMemoryRequest(response, args);
+				break;
+			case 'runToLine':
+				this.runToLineRequest(response, args);
+				break;
+			default:
+				super.customRequest(command, response, args);
+				break;
+		}
+	}
+
+	/**
+	Set breakpoints on instruction addresses, e.g. in startup code or a library
+	without sources. The previous instruction breakpoints are replaced by the
+	new list.
+	*/
+	protected setInstructionBreakpointsRequest
+		(
+		response: DebugProtocol.Response,
+		args: SetInstructionBreakpointsArguments
+		): void {
+		this.debugServer('setInstructionBreakpointsRequest\n');
+		this.breakpointsSet(response, 'instruction', () => this.instructionBreakpointsInsert(args.breakpoints));
+	}
+
+	/**
+	Replace the instruction breakpoints.
+	*/
+	private instructionBreakpointsInsert(breakpoints: InstructionBreakpoint[]): Promise<GnuBreakpoint[]> {
+		let numbers = this.instructionBreakpoints.map((breakpoint) => breakpoint.number);
+		let promises: Promise<any>[] = [];
+		let verifiedBreakpoints: GnuBreakpoint[] = [];
+
+		if (numbers.length) {
+			// Clear all previous instruction breakpoints.
+			promises.push(this.sendCommand('-break-delete ' + numbers.join(' ')));
+		}
+		breakpoints.forEach((b, index) => {
+			let options = breakpointOptions(b.condition, b.hitCondition);
+
+			if (options === undefined) {
+				let breakpoint = new ErrorBreakpoint(false);
+				breakpoint.message = `Unsupported hit condition: ${b.hitCondition}`;
+				verifiedBreakpoints[index] = breakpoint;
+				return;
+			}
+			let address = bits.hexAddress(parseInt(b.instructionReference) + (b.offset || 0));
+			let command = `-break-insert ${options}"*${address}"`;
+
+			promises.push(this.sendCommand(command).then
+				((record: gdbMI.MIresult) => {
+					let breakpoint = new ResolvedBreakpoint(record.results['bkpt']);
+					breakpoint['instructionReference'] = address;
+					verifiedBreakpoints[index] = breakpoint;
+				},
+				(record: gdbMI.MIresult) => {
+					let breakpoint = new ErrorBreakpoint(false);
+					breakpoint.message = record.results['msg'] as string;
+					verifiedBreakpoints[index] = breakpoint;
+				}));
+		});
+		return Promise.all(promises).then
+			(() => {
+				this.instructionBreakpoints = verifiedBreakpoints.filter((b) => b.verified);
+				return verifiedBreakpoints;
+			},
+			() => {
+				this.instructionBreakpoints = [];
+				return breakpoints.map(() => new ErrorBreakpoint(false));
+			});
+	}
+
+	private launchCommands(commands: string[]): Promise<any> {
+		const promises = commands.map((c) => this.sendCommand
+			(c, false, c.indexOf('-target-download') === 0 ? this.downloadTimeout : this.commandTimeout));
+
+		if (this.semihosting) {
+			if (!this.profile.capabilities.semihosting) {
+				this.error(`ERROR: ${this.profile.name} does not support semihosting\n`);
+			}
+			promises.push(...this.profile.semihosting.map((c) => this.sendCommand(c)));
+		}
+
+		return Promise.all(promises).then(() => {
+			this.debugServer('launchCommands send \n');
+			this.swoStart();
+			this.rttStart();
+			this.stopped('start', this.threadId);
+			// We are ready to set breakpoints. 
+			this.sendEvent(new InitializedEvent());
+		});
+	}
+
+	/**
+	Enable SWO on the target and open the SWO stream. Every stimulus port is 
+	shown in the debug console or in its own output channel.
+	*/
+	private swoStart() {
+		const c = this.swoConfiguration;
+		if (!c) {
+			return;
+		}
+		let promise: Promise<any> = Promise.resolve();
+
+		if (c.source === 'jlink') {
+			if (!this.profile.capabilities.swo) {
+				this.error(`ERROR: ${this.profile.name} has no SWO port, use source socket or file\n`);
+				return;
+			}
+			const commands = this.profile.swo(c.cpuFrequency, c.swoFrequency, swo.portMask(c.ports));
+			promise = Promise.all(commands.map((command) => this.sendCommand(command)));
+		}
+		this.swoSource = new swo.SwoSource(c, {
+			itm: (port: number, data: Buffer) => {
+				const p = c.ports.filter((p) => p.port === port)[0];
+				if (!p) {
+					return;
+				}
+				let decoder = this.swoDecoders[port] = 
+					this.swoDecoders[port] || new StringDecoder('utf8');
+				const text = decoder.write(data);
+
+				if (p.output === 'channel') {
+					this.swoChannel(p.label).append(text);
+				}
+				else {
+					this.sendEvent(new OutputEvent(text, 'stdout'));
+				}
+			},
+			dwt: (id: number, value: number) => {
+				if (c.dwt) {
+					this.swoChannel('DWT').appendLine(swo.dwtText(id, value));
+				}
+			},
+			overflow: () => {
+				this.debugServer('SWO overflow\n');
+			}
+		});
+		const source = this.swoSource;
+		promise
+			.then(() => source.open())
+			.then
+			(() => {
+				this.message('SWO              = ' + (c.source === 'file' ? c.path : `${c.host}:${c.port}`) + '\n');
+			},
+			(error) => {
+				this.error(`ERROR: SWO ${errorMessage(error)}\n`);
+			});
+	}
+
+	/**
+	Output channel for SWO output, created the first time it is used.
+	*/
+	private swoChannel(name: string): vscode.OutputChannel {
+		let channel = swoChannels[name];
+
+		if (!channel) {
+			channel = vscode.window.createOutputChannel(`SWO: ${name}`);
+			channel.show(true);
+			swoChannels[name] = channel;
+		}
+		return channel;
+	}
+
+	/**
+	Connect to the RTT channels of the GDB server. Up-channel data is shown in
+	a terminal or in the debug console.
+	*/
+	private rttStart() {
+		const c = this.rttConfiguration;
+		if (!c) {
+			return;
+		}
+		if (!this.profile.capabilities.rtt) {
+			this.error(`ERROR: ${this.profile.name} does not serve RTT channels\n`);
+		}
+		for (let channel of c.channels) {
+			let terminal: rtt.RttTerminal | undefined;
+
+			if (channel.output === 'terminal') {
+				terminal = rttTerminals[channel.label] = 
+					rttTerminals[channel.label] || new rtt.RttTerminal(channel.label);
+			}
+			let connection = new rtt.RttConnection(c.host, channel.port, {
+				data: (text: string) => {
+					if (terminal) {
+						terminal.write(text);
+					}
+					else {
+						this.sendEvent(new OutputEvent(text, 'stdout'));
+					}
+				},
+				status: (connected: boolean) => {
+					const state = connected ? 'connected' : 'disconnected';
+					this.debugServer(`RTT channel ${channel.channel} ${state}\n`);
+					if (connected && terminal) {
+						terminal.show();
+					}
+				}
+			});
+			if (terminal) {
+				terminal.input = (text: string) => connection.write(text);
+			}
+			connection.open();
+			this.rttConnections.push(connection);
+		}
+	}
+
+	private rttStop() {
+		for (let connection of this.rttConnections) {
+			connection.close();
+		}
+		this.rttConnections = [];
+	}
+
+	private swoStop() {
+		if (this.swoSource) {
+			this.swoSource.close();
+			this.swoSource = undefined;
+		}
+	}
+
+	/**
+	Send a GDB MI command. The result record resolves the promise, an error
+	result rejects it. The promise is also rejected when GDB does not answer
+	within the timeout, when the command is cancelled or when GDB exits.
+	*/
+	private sendCommand
+		(
+		command: string,
+		silent: boolean = false,
+		timeout: number = this.commandTimeout,
+		output?: string[]
+		): Promise<any> {
+		if (this.request !== undefined && this.cancelled.has(this.request)) {
+			return Promise.reject(errorRecord('cancelled'));
+		}
+		if (!running(this.client)) {
+			// Nobody would answer the command
+			return Promise.reject(errorRecord('GDB exited'));
+		}
+		// Every command gets an unique token
+		const token = this.token++;
+		const line = token + command + '\n';
+
+		this.debugServer(line);
+		return new Promise((resolve, reject) => {
+			this.commands.set(token, {
+				command: command,
+				request: this.request,
+				timeout: timeout,
+				output: output,
+				resolve: resolve,
+				reject: (record: gdbMI.MIresult) => {
+					if (!silent) {
+						this.error(`ERROR: ${record.results['msg'] as string}\n`);
+					}
+					reject(record);
+				}
+			});
+			this.commandTimer();
+			this.client.stdin.write(line);
+		});
+	}
+
+	/**
+	Handle the result record of a command. Results of commands that timed out
+	or were cancelled are ignored.
+	*/
+	private commandResult(token: number, record: gdbMI.MIresult) {
+		const c = this.commands.get(token);
+
+		if (!c) {
+			return;
+		}
+		this.commands.delete(token);
+		if (c.timer) {
+			clearTimeout(c.timer);
+		}
+		if (record.class === 'error') {
+			c.reject(record);
+		}
+		else {
+			c.resolve(record);
+		}
+		this.commandTimer();
+	}
+
+	/**
+	GDB answers the commands in order, so only the oldest command waits for its
+	result. Its timer starts when the command before it is answered.
+	*/
+	private commandTimer() {
+		for (let c of this.commands.values()) {
+			if (!c.timer && c.timeout > 0) {
+				c.timer = setTimeout(() => {
+					const message = `GDB did not answer ${c.command} within ${c.timeout} ms`;
+					// The requests with commands queued behind it wait for GDB as well
+					const owners = new Set(Array.from(this.commands.values()).map((p) => p.request));
+
+					this.commandsCancel((pending) => pending === c, message);
+					this.requestsCancel(owners, message);
+				}, c.timeout);
+			}
+			break;
+		}
+	}
+
+	/**
+	Reject the commands that match the filter. GDB is interrupted when it is
+	busy with one of these commands.
+	*/
+	private commandsCancel(filter: (c: PendingCommand) => boolean, message: string) {
+		let first = true;
+
+		for (let [token, c] of this.commands) {
+			if (filter(c)) {
+				if (first && c.command.indexOf('-target-download') === 0) {
+					// Interrupt the download like Ctrl-C in GDB
+					try { this.client.kill('SIGINT'); } catch (error) { }
+				}
+				this.commands.delete(token);
+				if (c.timer) {
+					clearTimeout(c.timer);
+				}
+				c.reject(errorRecord(message));
+			}
+			first = false;
+		}
+		this.commandTimer();
+	}
+
+	/**
+	Answer the requests that sent a command to GDB with an error and reject their
+	commands, later responses of these requests are dropped.
+	*/
+	private requestsCancel(owners: Set<number | undefined>, message: string) {
+		for (let request of Array.from(this.requests.values())) {
+			if (owners.has(request.seq)) {
+				this.sendResponse(new Response(request, message));
+				this.cancelled.add(request.seq);
+			}
+		}
+		this.commandsCancel((c) => c.request !== undefined && this.cancelled.has(c.request), message);
+	}
+
+	/**
+	Forget the cancelled requests without commands. A request only sends more
+	commands from the result of a previous command.
+	*/
+	private cancelledPrune() {
+		for (let seq of Array.from(this.cancelled)) {
+			if (!Array.from(this.commands.values()).some((c) => c.request === seq)) {
+				this.cancelled.delete(seq);
+			}
+		}
+	}
+
+	/**
+	Send commands for a request after its handler returned, e.g. for the
+	children of a variable. The commands are cancelled with the request.
+	*/
+	private inRequest<T>(request: number | undefined, send: () => T): T {
+		const current = this.request;
+
+		this.request = request;
+		try {
+			return send();
+		}
+		finally {
+			this.request = current;
+		}
+	}
+
+	/**
+	Remember the requests that wait for a response, so they can be cancelled.
+	*/
+	protected dispatchRequest(request: DebugProtocol.Request): void {
+		this.cancelledPrune();
+		this.requests.set(request.seq, request);
+		this.request = request.seq;
+		try {
+			super.dispatchRequest(request);
+		}
+		finally {
+			this.request = undefined;
+		}
+	}
+
+	/**
+	Send the response of a request. A request that was cancelled or failed after
+	a timeout already has its response.
+	*/
+	public sendResponse(response: DebugProtocol.Response): void {
+		if (this.requests.delete(response.request_seq)) {
+			super.sendResponse(response);
+		}
+	}
+
+	/**
+	Cancel a request that waits for GDB, for example the expansion of a large
+	variable. The commands of the request are rejected.
+	*/
+	protected cancelRequest
+		(
+		response: DebugProtocol.CancelResponse,
+		args: DebugProtocol.CancelArguments
+		): void {
+		this.debugServer('cancelRequest\n');
+		const seq = args.requestId;
+		const request = seq === undefined ? undefined : this.requests.get(seq);
+
+		if (request) {
+			this.sendResponse(new Response(request, 'cancelled'));
+			this.cancelled.add(request.seq);
+			this.commandsCancel((c) => c.request === seq, 'cancelled');
+		}
+		this.sendResponse(response);
+	}
+
+	private debugClient(text: string) {
+		if (this.debugOutput) {
+			this.sendEvent(new OutputEvent(text, 'console'));
+		}
+	}
+
+	private debugServer(text: string) {
+		if (this.debugOutput) {
+			this.sendEvent(new OutputEvent(text, 'console'));
+		}
+	}
+
+	/**
+	Message of the debug adapter. The stdout category is only used for the
+	output of the program, e.g. semihosting, SWO and RTT.
+	*/
+	private message(text: string) {
+		this.sendEvent(new OutputEvent(text, 'console'));
+	}
+
+	private error(text: string) {
+		this.sendEvent(new OutputEvent(text, 'stderr'));
+	}
+
+	private stopped(reason: string, threadId: number, text?: string) {
+		this.halt = true;
+		if (!isNaN(threadId)) {
+			this.stoppedThreadId = threadId;
+		}
+		this.sendEvent(new StoppedEvent(reason, threadId, text));
 	}
 
 	private running(threadId: number) {
 		this.halt = false;
+		this.currentFault = undefined;
+		this.temporariesDelete();
 		this.sendEvent(new ContinuedEvent(threadId));
 	}
 }
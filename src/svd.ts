@@ -0,0 +1,505 @@
+/**
+svd.ts
+
+Parse CMSIS-SVD peripheral descriptions.
+
+@file
+@copyright   Atomclip, all rights reserved
+@author      Carl van Heezik
+@version     0.0.1
+@since       2026-10-19
+
+See CMSIS manual for background information.
+https://arm-software.github.io/CMSIS_5/SVD/html/svd_Format_pg.html
+
+device →
+peripherals → peripheral*
+
+peripheral →
+name, description, groupName, baseAddress, registers, @derivedFrom
+
+registers →
+( register | cluster )*
+
+cluster →
+name, addressOffset, ( register | cluster )*, dim*
+
+register →
+name, description, addressOffset, size, access, resetValue, readAction, fields,
+dim*
+
+field →
+name, description, ( bitOffset, bitWidth | lsb, msb | bitRange ), access,
+readAction, enumeratedValues
+
+enumeratedValue →
+name, description, ( value | isDefault )
+
+The properties size, access and resetValue are inherited from the device,
+peripheral and cluster when a register does not define them. A readAction
+(clear, set, modify or modifyExternal) means that reading the register changes
+it, e.g. clears a status flag or pops a FIFO.
+*/
+import * as bits from './bits';
+
+/**
+XML element, only the parts used by the SVD format.
+*/
+export class XMLelement {
+	public name: string;
+	public attributes: { [name: string]: string } = {};
+	public children: XMLelement[] = [];
+	public text: string = '';
+
+	constructor(name: string) {
+		this.name = name;
+	}
+
+	/// First child element with the given name.
+	child(name: string): XMLelement | undefined {
+		return this.children.filter((c) => c.name === name)[0];
+	}
+
+	/// All child elements with the given name.
+	all(name: string): XMLelement[] {
+		return this.children.filter((c) => c.name === name);
+	}
+
+	/// Text of the first child element with the given name.
+	value(name: string): string | undefined {
+		const c = this.child(name);
+		return c ? c.text.trim() : undefined;
+	}
+}
+
+const ENTITIES: { [name: string]: string } =
+{
+	'lt': '<',
+	'gt': '>',
+	'amp': '&',
+	'quot': '"',
+	'apos': '\''
+};
+
+/**
+Replace the XML entities in a text.
+*/
+function decode(text: string): string {
+	return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-z]+);/g, (all, entity: string) => {
+		if (entity[0] === '#') {
+			return String.fromCharCode(entity[1] === 'x' ?
+				parseInt(entity.substring(2), 16) : parseInt(entity.substring(1)));
+		}
+		return ENTITIES[entity] !== undefined ? ENTITIES[entity] : all;
+	});
+}
+
+/**
+Parse an XML document. Comments, processing instructions and the document
+type are skipped. Returns the root element.
+*/
+export function parseXML(text: string): XMLelement {
+	const TAG = /<(\/?)([^\s\/>]+)((?:\s+[^\s=\/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+	const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+	let root = new XMLelement('');
+	let stack: XMLelement[] = [root];
+	let i = 0;
+
+	while (i < text.length) {
+		const start = text.indexOf('<', i);
+		const element = stack[stack.length - 1];
+
+		if (start < 0) {
+			break;
+		}
+		element.text += decode(text.substring(i, start));
+		if (text.startsWith('<!--', start)) {
+			i = text.indexOf('-->', start);
+			i = i < 0 ? text.length : i + 3;
+		}
+		else if (text.startsWith('<![CDATA[', start)) {
+			let end = text.indexOf(']]>', start);
+			end = end < 0 ? text.length : end;
+			element.text += text.substring(start + 9, end);
+			i = end + 3;
+		}
+		else if (text[start + 1] === '?' || text[start + 1] === '!') {
+			i = text.indexOf('>', start);
+			i = i < 0 ? text.length : i + 1;
+		}
+		else {
+			TAG.lastIndex = start;
+			const match = TAG.exec(text);
+
+			if (!match) {
+				throw new Error(`Invalid XML at offset ${start}`);
+			}
+			i = TAG.lastIndex;
+			if (match[1]) {
+				// End tag
+				if (stack.length > 1) {
+					stack.pop();
+				}
+			}
+			else {
+				let child = new XMLelement(match[2]);
+				let attribute;
+
+				while ((attribute = ATTRIBUTE.exec(match[3])) !== null) {
+					child.attributes[attribute[1]] = decode
+						(attribute[2] !== undefined ? attribute[2] : attribute[3]);
+				}
+				element.children.push(child);
+				if (!match[4]) {
+					stack.push(child);
+				}
+			}
+		}
+	}
+	if (!root.children.length) {
+		throw new Error('No XML element found');
+	}
+	return root.children[0];
+}
+
+/**
+Parse a SVD number: decimal, hexadecimal (0x) or binary (# or 0b). Do not care
+bits (x) in binary numbers are read as 0.
+*/
+export function parseNumber(text: string | undefined): number {
+	if (text === undefined) {
+		return NaN;
+	}
+	text = text.trim();
+	if (text[0] === '#') {
+		return parseInt(text.substring(1).replace(/x/gi, '0'), 2);
+	}
+	if (/^0b/i.test(text)) {
+		return parseInt(text.substring(2).replace(/x/gi, '0'), 2);
+	}
+	if (/^0x/i.test(text)) {
+		return parseInt(text.substring(2), 16);
+	}
+	return parseInt(text, 10);
+}
+
+export class SvdEnumeratedValue {
+	public name: string;
+	public description: string;
+	public value: number;
+	/// The enumerated value is used for all values not listed.
+	public isDefault: boolean;
+}
+
+export class SvdField {
+	public name: string;
+	public description: string;
+	public bitOffset: number;
+	public bitWidth: number;
+	public access: string;
+	/// Side effect of a read, e.g. clear.
+	public readAction?: string;
+	public enumeratedValues: SvdEnumeratedValue[] = [];
+
+	/// Extract the value of the field from the register value.
+	extract(registerValue: number): number {
+		return bits.field(registerValue, this.bitOffset, this.bitWidth);
+	}
+
+	/// Replace the value of the field in the register value.
+	insert(registerValue: number, value: number): number {
+		const old = this.extract(registerValue);
+		return registerValue + (value - old) * bits.power(this.bitOffset);
+	}
+
+	/// Format the value of the field, with the name of the enumerated value.
+	format(value: number): string {
+		let text = this.bitWidth === 1 ? value.toString() : bits.hex(value, this.bitWidth);
+		let enumerated = this.enumeratedValues.filter((e) => e.value === value)[0] ||
+			this.enumeratedValues.filter((e) => e.isDefault)[0];
+
+		if (enumerated) {
+			text = `${enumerated.name} (${text})`;
+		}
+		return text;
+	}
+
+	/**
+	Parse the value typed by the user, a number or the name of an enumerated
+	value. Returns NaN if the value is invalid.
+	*/
+	parse(text: string): number {
+		text = text.trim();
+		let enumerated = this.enumeratedValues.filter((e) => e.name === text)[0];
+		let value = enumerated ? enumerated.value : parseNumber(text);
+
+		if (value < 0 || value >= bits.power(this.bitWidth)) {
+			return NaN;
+		}
+		return value;
+	}
+
+	readable(): boolean {
+		return this.access !== 'write-only' && this.access !== 'writeOnce';
+	}
+
+	writable(): boolean {
+		return this.access !== 'read-only';
+	}
+}
+
+export class SvdRegister {
+	public name: string;
+	public description: string;
+	/// Absolute address of the register.
+	public address: number;
+	/// Size in bits.
+	public size: number;
+	public access: string;
+	/// Side effect of a read, e.g. clear.
+	public readAction?: string;
+	public resetValue: number;
+	public fields: SvdField[] = [];
+	/// Last value read from the target.
+	public value?: number;
+
+	/// Size in bytes.
+	bytes(): number {
+		return Math.ceil(this.size / 8);
+	}
+
+	format(value: number): string {
+		return bits.hex(value, this.size);
+	}
+
+	readable(): boolean {
+		return this.access !== 'write-only' && this.access !== 'writeOnce';
+	}
+
+	writable(): boolean {
+		return this.access !== 'read-only';
+	}
+
+	/// Reading the register or one of its fields changes the register.
+	readChanges(): boolean {
+		return !!this.readAction || this.fields.some((f) => !!f.readAction);
+	}
+}
+
+export class SvdPeripheral {
+	public name: string;
+	public description: string;
+	public groupName: string;
+	public baseAddress: number;
+	public registers: SvdRegister[] = [];
+}
+
+export class SvdDevice {
+	public name: string;
+	public description: string;
+	public peripherals: SvdPeripheral[] = [];
+}
+
+/**
+Properties inherited from the device, peripheral and cluster.
+*/
+interface Defaults {
+	size: number;
+	access: string;
+	resetValue: number;
+}
+
+/**
+Inherit the default properties of an element.
+*/
+function defaults(element: XMLelement, parent: Defaults): Defaults {
+	const size = parseNumber(element.value('size'));
+	const resetValue = parseNumber(element.value('resetValue'));
+
+	return {
+		size: isNaN(size) ? parent.size : size,
+		access: element.value('access') || parent.access,
+		resetValue: isNaN(resetValue) ? parent.resetValue : resetValue
+	};
+}
+
+/**
+Expand the dim element of a register or cluster to the list of names and
+address offsets. An element without dim is returned as is.
+*/
+function dimensions
+	(
+	element: XMLelement,
+	name: string,
+	offset: number
+	): { name: string, offset: number }[] {
+	const dim = parseNumber(element.value('dim'));
+
+	if (isNaN(dim)) {
+		return [{ name: name, offset: offset }];
+	}
+	const increment = parseNumber(element.value('dimIncrement'));
+	let index: string[] = [];
+	let dimIndex = element.value('dimIndex');
+
+	if (dimIndex) {
+		const range = /^(\d+)\s*-\s*(\d+)$/.exec(dimIndex);
+		const letters = /^([A-Z])\s*-\s*([A-Z])$/.exec(dimIndex);
+		if (range) {
+			for (let i = parseInt(range[1]); i <= parseInt(range[2]); i++) {
+				index.push(i.toString());
+			}
+		}
+		else if (letters) {
+			// E.g. A-D for GPIOA to GPIOD
+			for (let c = letters[1].charCodeAt(0); c <= letters[2].charCodeAt(0); c++) {
+				index.push(String.fromCharCode(c));
+			}
+		}
+		else {
+			index = dimIndex.split(',').map((i) => i.trim());
+		}
+	}
+	let list: { name: string, offset: number }[] = [];
+	for (let i = 0; i < dim; i++) {
+		let n = index[i] !== undefined ? index[i] : i.toString();
+		list.push
+			({
+				name: name.replace('[%s]', `[${n}]`).replace('%s', n),
+				offset: offset + i * increment
+			});
+	}
+	return list;
+}
+
+function parseEnumeratedValues(element: XMLelement): SvdEnumeratedValue[] {
+	let list: SvdEnumeratedValue[] = [];
+
+	for (let values of element.all('enumeratedValues')) {
+		for (let e of values.all('enumeratedValue')) {
+			let enumerated = new SvdEnumeratedValue;
+			enumerated.name = e.value('name') || '';
+			enumerated.description = e.value('description') || '';
+			enumerated.value = parseNumber(e.value('value'));
+			enumerated.isDefault = e.value('isDefault') === 'true';
+			list.push(enumerated);
+		}
+	}
+	return list;
+}
+
+function parseField(element: XMLelement, access: string): SvdField {
+	let field = new SvdField;
+	let bitOffset = parseNumber(element.value('bitOffset'));
+	let bitWidth = parseNumber(element.value('bitWidth'));
+	const lsb = parseNumber(element.value('lsb'));
+	const msb = parseNumber(element.value('msb'));
+	const bitRange = /\[(\d+):(\d+)\]/.exec(element.value('bitRange') || '');
+
+	if (!isNaN(lsb) && !isNaN(msb)) {
+		bitOffset = lsb;
+		bitWidth = msb - lsb + 1;
+	}
+	else if (bitRange) {
+		bitOffset = parseInt(bitRange[2]);
+		bitWidth = parseInt(bitRange[1]) - bitOffset + 1;
+	}
+	field.name = element.value('name') || '';
+	field.description = element.value('description') || '';
+	field.bitOffset = bitOffset || 0;
+	field.bitWidth = bitWidth || 1;
+	field.access = element.value('access') || access;
+	field.readAction = element.value('readAction');
+	field.enumeratedValues = parseEnumeratedValues(element);
+	return field;
+}
+
+/**
+Parse the registers and clusters of a peripheral or cluster. The registers of
+a cluster get the name of the cluster as prefix.
+*/
+function parseRegisters
+	(
+	element: XMLelement,
+	address: number,
+	prefix: string,
+	parent: Defaults,
+	registers: SvdRegister[]
+	) {
+	for (let child of element.children) {
+		const inherited = defaults(child, parent);
+		const name = child.value('name') || '';
+		const offset = parseNumber(child.value('addressOffset')) || 0;
+
+		switch (child.name) {
+			case 'register':
+				for (let d of dimensions(child, name, offset)) {
+					let register = new SvdRegister;
+					register.name = prefix + d.name;
+					register.description = child.value('description') || '';
+					register.address = address + d.offset;
+					register.size = inherited.size;
+					register.access = inherited.access;
+					register.resetValue = inherited.resetValue;
+					register.readAction = child.value('readAction');
+					let fields = child.child('fields');
+					if (fields) {
+						register.fields = fields.all('field')
+							.map((f) => parseField(f, inherited.access));
+					}
+					registers.push(register);
+				}
+				break;
+			case 'cluster':
+				for (let d of dimensions(child, name, offset)) {
+					parseRegisters(child, address + d.offset, prefix + d.name + '.', inherited, registers);
+				}
+				break;
+		}
+	}
+}
+
+/**
+Parse a CMSIS-SVD file.
+*/
+export function parseSVD(text: string): SvdDevice {
+	const root = parseXML(text);
+	let device = new SvdDevice;
+	const inherited = defaults(root, { size: 32, access: 'read-write', resetValue: 0 });
+	const peripherals = root.child('peripherals');
+	let elements: { [name: string]: XMLelement } = {};
+
+	device.name = root.value('name') || '';
+	device.description = root.value('description') || '';
+	if (!peripherals) {
+		return device;
+	}
+	for (let element of peripherals.all('peripheral')) {
+		elements[element.value('name') || ''] = element;
+	}
+	for (let element of peripherals.all('peripheral')) {
+		let peripheral = new SvdPeripheral;
+		// A derived peripheral takes the registers of the original peripheral
+		let base = elements[element.attributes['derivedFrom']] || element;
+		let registers = element.child('registers') || base.child('registers');
+
+		peripheral.name = element.value('name') || '';
+		peripheral.description = element.value('description') || base.value('description') || '';
+		peripheral.groupName = element.value('groupName') || base.value('groupName') || '';
+		peripheral.baseAddress = parseNumber(element.value('baseAddress'));
+		if (registers) {
+			parseRegisters
+				(
+				registers,
+				peripheral.baseAddress,
+				'',
+				defaults(element, defaults(base, inherited)),
+				peripheral.registers
+				);
+		}
+		peripheral.registers.sort((a, b) => a.address - b.address);
+		device.peripherals.push(peripheral);
+	}
+	device.peripherals.sort((a, b) => a.name.localeCompare(b.name));
+	return device;
+}
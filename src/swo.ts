@@ -0,0 +1,265 @@
+/**
+swo.ts
+
+Decode the SWO trace stream of an Arm Cortex-M processor.
+
+@file
+@copyright   Atomclip, all rights reserved
+@author      Carl van Heezik
+@version     0.0.1
+@since       2026-10-19
+
+See Armv7-M Architecture Reference Manual appendix D4 for background
+information about the ITM and DWT packet protocol.
+
+packet →
+sync | overflow | timestamp | extension | source
+
+sync →
+at least 47 zero bits followed by a one bit (00 00 00 00 00 80)
+
+overflow →
+0x70
+
+timestamp →
+local timestamp (header xxxx0000) | global timestamp (header 0x94 or 0xB4)
+
+extension →
+header xxxx1x00, followed by payload while bit 7 is set
+
+source →
+header AAAAASss, followed by 1, 2 or 4 payload bytes (ss = 01, 10, 11)
+S = 0: instrumentation packet from ITM stimulus port AAAAA
+S = 1: hardware source packet from DWT with discriminator AAAAA
+*/
+import * as fs from 'fs';
+import * as net from 'net';
+import * as bits from './bits';
+
+/**
+Names of the DWT hardware source packets by discriminator.
+*/
+const DWT_PACKETS: { [id: number]: string } =
+{
+	0: 'Event counter',
+	1: 'Exception trace',
+	2: 'PC sample',
+};
+
+/**
+Exception trace functions.
+*/
+const EXCEPTION_FUNCTIONS = ['', 'entered', 'exited', 'returned to'];
+
+export interface SwoHandlers {
+	/// Data written to an ITM stimulus port
+	itm(port: number, data: Buffer): void;
+	/// Hardware source packet from the DWT
+	dwt(id: number, value: number): void;
+	/// The trace buffer of the target overflowed
+	overflow(): void;
+}
+
+/**
+Describe a DWT hardware source packet.
+*/
+export function dwtText(id: number, value: number): string {
+	switch (id) {
+		case 0:
+			return `${DWT_PACKETS[id]}: 0x${value.toString(16)}`;
+		case 1:
+			return `${DWT_PACKETS[id]}: exception ${bits.field(value, 0, 9)} ` +
+				EXCEPTION_FUNCTIONS[bits.field(value, 12, 2)];
+		case 2:
+			return `${DWT_PACKETS[id]}: 0x${value.toString(16)}`;
+	}
+	if (id >= 8 && id <= 23) {
+		const comparator = bits.field(id, 1, 2);
+		let kind = 'Data value';
+
+		if (id < 16) {
+			kind = bits.field(id, 0, 1) ? 'Data address' : 'Data trace PC';
+		}
+		else if (bits.field(id, 0, 1)) {
+			kind = 'Data write';
+		}
+		else {
+			kind = 'Data read';
+		}
+		return `${kind} (comparator ${comparator}): 0x${value.toString(16)}`;
+	}
+	return `DWT ${id}: 0x${value.toString(16)}`;
+}
+
+/**
+Decoder of the ITM and DWT packets. Data may be pushed in chunks of any size,
+incomplete packets are kept until the rest of the packet arrives.
+*/
+export class SwoDecoder {
+	private buffer: Buffer = Buffer.alloc(0);
+
+	constructor(private handlers: SwoHandlers) {
+	}
+
+	push(data: Buffer) {
+		let buffer = Buffer.concat([this.buffer, data]);
+		let i = 0;
+
+		while (i < buffer.length) {
+			const length = this.packet(buffer, i);
+
+			if (length === 0) {
+				// Incomplete packet
+				break;
+			}
+			i += length;
+		}
+		this.buffer = buffer.slice(i);
+	}
+
+	/**
+	Decode the packet at the offset. Returns the length of the packet or 0 if
+	the packet is not complete.
+	*/
+	private packet(buffer: Buffer, offset: number): number {
+		const header = buffer[offset];
+
+		// Synchronization, zero bytes followed by 0x80
+		if (header === 0x00 || header === 0x80) {
+			return 1;
+		}
+		if (header === 0x70) {
+			this.handlers.overflow();
+			return 1;
+		}
+		// Timestamps and extension packets have a payload with continuation bit
+		if (bits.field(header, 0, 4) === 0x0 || (bits.field(header, 3, 1) && !bits.field(header, 0, 2)) ||
+			header === 0x94 || header === 0xB4) {
+			let length = 1;
+
+			if (bits.field(header, 7, 1)) {
+				while (true) {
+					if (offset + length >= buffer.length) {
+						return 0;
+					}
+					if (!bits.field(buffer[offset + length++], 7, 1)) {
+						break;
+					}
+				}
+			}
+			return length;
+		}
+		const size = [0, 1, 2, 4][bits.field(header, 0, 2)];
+		if (size === 0) {
+			// Reserved header, skip it to synchronize again
+			return 1;
+		}
+		if (offset + size >= buffer.length) {
+			return 0;
+		}
+		const address = bits.field(header, 3, 5);
+		const payload = buffer.slice(offset + 1, offset + 1 + size);
+
+		if (bits.field(header, 2, 1)) {
+			let value = 0;
+
+			for (let i = size - 1; i >= 0; i--) {
+				value = value * 256 + payload[i];
+			}
+			this.handlers.dwt(address, value);
+		}
+		else {
+			this.handlers.itm(address, payload);
+		}
+		return size + 1;
+	}
+}
+
+/**
+SWO configuration, the schema lives in the package.json of the gnu-debugger
+extension.
+*/
+export interface SwoConfiguration {
+	/// jlink (SWO telnet port of JLinkGDBServer), socket or file (also FIFO)
+	source: string;
+	/// TCP/IP address of the SWO stream
+	host: string;
+	/// TCP/IP port of the SWO stream
+	port: number;
+	/// Path to file or FIFO with the SWO stream
+	path: string;
+	/// Frequency of the processor in Hz
+	cpuFrequency: number;
+	/// Frequency of SWO in Hz
+	swoFrequency: number;
+	/// Enabled stimulus ports
+	ports: SwoPort[];
+	/// Show the DWT packets
+	dwt: boolean;
+}
+
+export interface SwoPort {
+	/// Number of the ITM stimulus port (0-31)
+	port: number;
+	/// Name of the output
+	label: string;
+	/// console (debug console) or channel (output channel)
+	output: string;
+}
+
+/**
+Mask with the enabled stimulus ports.
+*/
+export function portMask(ports: SwoPort[]): number {
+	return ports.reduce((mask, p) => bits.field(mask, p.port, 1) ? mask : mask + bits.power(p.port), 0);
+}
+
+/**
+Read the SWO stream from a socket or a file and decode it.
+*/
+export class SwoSource {
+	private stream: NodeJS.ReadableStream | undefined;
+	private socket: net.Socket | undefined;
+	private decoder: SwoDecoder;
+
+	constructor(private configuration: SwoConfiguration, handlers: SwoHandlers) {
+		this.decoder = new SwoDecoder(handlers);
+	}
+
+	/**
+	Open the SWO stream. Resolves when the stream is connected.
+	*/
+	open(): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const c = this.configuration;
+
+			if (c.source === 'file') {
+				let stream = fs.createReadStream(c.path);
+
+				stream.on('open', () => resolve());
+				stream.on('error', (error) => reject(error.message));
+				stream.on('data', (data: Buffer) => this.decoder.push(data));
+				this.stream = stream;
+			}
+			else {
+				let socket = net.connect(c.port, c.host);
+
+				socket.on('connect', () => resolve());
+				socket.on('error', (error) => reject(error.message));
+				socket.on('data', (data: Buffer) => this.decoder.push(data));
+				this.socket = socket;
+			}
+		});
+	}
+
+	close() {
+		if (this.socket) {
+			this.socket.destroy();
+			this.socket = undefined;
+		}
+		if (this.stream) {
+			(this.stream as fs.ReadStream).close();
+			this.stream = undefined;
+		}
+	}
+}
@@ -0,0 +1,211 @@
+/**
+parser.test.ts
+
+Tests of the GDB/MI parser with output of GDB.
+
+@file
+@copyright   Atomclip, all rights reserved
+@author      Carl van Heezik
+@version     0.0.1
+@since       2026-10-19
+*/
+import * as assert from 'assert';
+import * as gdbMI from '../parser';
+
+/**
+Parse a line that must be a result record.
+*/
+function result(output: string): gdbMI.MIresult
+{
+  const record = gdbMI.parseMI(output);
+
+  assert.ok(record instanceof gdbMI.MIresult);
+  return record as gdbMI.MIresult;
+}
+
+suite('GDB/MI parser', () =>
+{
+  suite('c-string', () =>
+  {
+    test('decodes the escapes', () =>
+    {
+      const record = gdbMI.parseMI('~"Breakpoint 1, main () at main.c:5\\n\\t\\"x\\" \\\\\\n"');
+
+      assert.ok(record instanceof gdbMI.MIstream);
+      assert.strictEqual((record as gdbMI.MIstream).type, 'console');
+      assert.strictEqual((record as gdbMI.MIstream).content, 'Breakpoint 1, main () at main.c:5\n\t"x" \\\n');
+    });
+
+    test('decodes octal escapes as UTF-8', () =>
+    {
+      const record = gdbMI.parseMI('@"\\303\\251t\\303\\251 \\342\\202\\254\\012"') as gdbMI.MIstream;
+
+      assert.strictEqual(record.type, 'target');
+      assert.strictEqual(record.content, 'été €\n');
+    });
+
+    test('decodes the message of an error', () =>
+    {
+      const record = result('12^error,msg="No symbol \\"foo\\" in current context."');
+
+      assert.strictEqual(record.token, 12);
+      assert.strictEqual(record.class, 'error');
+      assert.strictEqual(record.results['msg'], 'No symbol "foo" in current context.');
+    });
+  });
+
+  suite('prompt', () =>
+  {
+    test('with and without trailing space', () =>
+    {
+      assert.ok(gdbMI.parseMI('(gdb) ') instanceof gdbMI.MIprompt);
+      assert.ok(gdbMI.parseMI('(gdb)\r\n') instanceof gdbMI.MIprompt);
+    });
+  });
+
+  suite('malformed output', () =>
+  {
+    const malformed =
+      [
+        '^done,value="1',
+        '^done,value=1',
+        '^bogus',
+        '^done,value="1"garbage',
+        '~"\\q"',
+        'Reading symbols from firmware.elf...',
+      ];
+
+    for (let output of malformed)
+    {
+      test(output, () =>
+      {
+        assert.throws(() => gdbMI.parseMI(output), gdbMI.MIparseError);
+      });
+    }
+
+    test('reports the position', () =>
+    {
+      try
+      {
+        gdbMI.parseMI('^done,value=1');
+        assert.fail('No MIparseError');
+      }
+      catch (e)
+      {
+        assert.ok(e instanceof gdbMI.MIparseError);
+        assert.strictEqual(e.position, 12);
+        assert.strictEqual(e.output, '^done,value=1');
+      }
+    });
+  });
+
+  suite('tuples', () =>
+  {
+    test('stopped at a breakpoint', () =>
+    {
+      const record = gdbMI.parseMI('*stopped,reason="breakpoint-hit",disp="keep",bkptno="1",' +
+        'frame={addr="0x08000150",func="main",args=[],file="main.c",fullname="/p/main.c",' +
+        'line="12",arch="armv7e-m"},thread-id="1",stopped-threads="all"') as gdbMI.MIasync;
+      const frame = record.results['frame'] as gdbMI.MItuple;
+
+      assert.ok(record instanceof gdbMI.MIasync);
+      assert.strictEqual(record.token, undefined);
+      assert.strictEqual(record.type, 'exec');
+      assert.strictEqual(record.class, 'stopped');
+      assert.strictEqual(record.results['bkptno'], '1');
+      assert.strictEqual(frame['func'], 'main');
+      assert.deepStrictEqual(frame['args'], []);
+    });
+
+    test('repeated names are kept as list of results', () =>
+    {
+      const record = result('^done,thread-ids={thread-id="1",thread-id="2"},' +
+        'current-thread-id="1",number-of-threads="2"');
+      const ids = gdbMI.resultList(record.results['thread-ids']);
+
+      assert.deepStrictEqual(ids.map((id) => [id.name, id.value]),
+        [['thread-id', '1'], ['thread-id', '2']]);
+      assert.strictEqual(record.results['number-of-threads'], '2');
+    });
+
+    test('a single thread is a tuple', () =>
+    {
+      const record = result('^done,thread-ids={thread-id="1"},current-thread-id="1",number-of-threads="1"');
+
+      assert.deepStrictEqual(record.results['thread-ids'], { 'thread-id': '1' });
+      assert.strictEqual(gdbMI.resultList(record.results['thread-ids']).length, 1);
+    });
+
+    test('breakpoint with multiple locations', () =>
+    {
+      const record = result('^done,bkpt={number="1",type="breakpoint",disp="keep",enabled="y",' +
+        'addr="<MULTIPLE>",times="0",original-location="inline.h:3"},' +
+        '{number="1.1",enabled="y",addr="0x08000130",func="foo",file="inline.h",' +
+        'fullname="/p/inline.h",line="3",thread-groups=["i1"]},' +
+        '{number="1.2",enabled="y",addr="0x08000190",func="bar",file="inline.h",' +
+        'fullname="/p/inline.h",line="3",thread-groups=["i1"]}');
+      const bkpt = record.results['bkpt'] as gdbMI.MItuple;
+      const locations = bkpt['locations'] as gdbMI.MItuple[];
+
+      assert.strictEqual(bkpt['addr'], '<MULTIPLE>');
+      assert.strictEqual(locations.length, 2);
+      assert.strictEqual(locations[0]['number'], '1.1');
+      assert.strictEqual(locations[1]['func'], 'bar');
+      assert.deepStrictEqual(locations[1]['thread-groups'], ['i1']);
+    });
+
+    test('script of a breakpoint is a list of values', () =>
+    {
+      const record = gdbMI.parseMI('=breakpoint-modified,bkpt={number="2",type="breakpoint",' +
+        'disp="keep",enabled="y",addr="0x08000140",func="main",file="main.c",' +
+        'fullname="/p/main.c",line="10",thread-groups=["i1"],times="0",' +
+        'script={"silent","print x"},original-location="main.c:10"}') as gdbMI.MIasync;
+      const bkpt = record.results['bkpt'] as gdbMI.MItuple;
+
+      assert.strictEqual(record.type, 'notify');
+      assert.deepStrictEqual(bkpt['script'], ['silent', 'print x']);
+      assert.strictEqual(bkpt['original-location'], 'main.c:10');
+    });
+  });
+
+  suite('lists', () =>
+  {
+    test('list of results', () =>
+    {
+      const record = result('^done,stack=[frame={level="0",addr="0x08000150",func="main",' +
+        'file="main.c",fullname="/p/main.c",line="12",arch="armv7e-m"},' +
+        'frame={level="1",addr="0x08000100",func="Reset_Handler",file="startup.s",' +
+        'fullname="/p/startup.s",line="80",arch="armv7e-m"}]');
+      const stack = gdbMI.resultList(record.results['stack']);
+
+      assert.strictEqual(stack.length, 2);
+      assert.ok(stack[0] instanceof gdbMI.MIvariable);
+      assert.strictEqual(stack[0].name, 'frame');
+      assert.strictEqual((stack[1].value as gdbMI.MItuple)['func'], 'Reset_Handler');
+    });
+
+    test('list of values', () =>
+    {
+      const record = result('^done,register-names=["r0","r1","","pc"]');
+
+      assert.deepStrictEqual(record.results['register-names'], ['r0', 'r1', '', 'pc']);
+    });
+
+    test('list of tuples', () =>
+    {
+      const record = result('^done,memory=[{begin="0x20000000",offset="0x00000000",' +
+        'end="0x20000004",contents="01020304"}]');
+      const memory = record.results['memory'] as gdbMI.MItuple[];
+
+      assert.strictEqual(memory[0]['contents'], '01020304');
+    });
+
+    test('empty list and tuple', () =>
+    {
+      const record = result('^done,changelist=[],value={}');
+
+      assert.deepStrictEqual(record.results['changelist'], []);
+      assert.deepStrictEqual(record.results['value'], {});
+    });
+  });
+});